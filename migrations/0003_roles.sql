@@ -0,0 +1,18 @@
+-- Migration number: 0003 	 2026-10-19T07:10:00.000Z
+-- Global role per user plus per-subject grants. Everyone who could log in before
+-- this migration had full access, so existing accounts become owners.
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('viewer', 'author', 'editor', 'owner'));
+
+UPDATE users SET role = 'owner';
+
+CREATE TABLE
+IF NOT EXISTS subject_grants
+(
+    user_id INTEGER NOT NULL,
+    subject_id INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'author', 'editor', 'owner')),
+    PRIMARY KEY (user_id, subject_id),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (subject_id) REFERENCES subjects (id) ON DELETE CASCADE
+);
@@ -0,0 +1,20 @@
+-- Migration number: 0004 	 2026-10-19T07:20:00.000Z
+-- One row per login. Refresh tokens are stored as SHA-256 hashes and rotated on
+-- every use; `previous_token_hash` lets us detect a replayed (stolen) token.
+CREATE TABLE
+IF NOT EXISTS sessions
+(
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    previous_token_hash TEXT,
+    user_agent TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    last_used_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+CREATE INDEX IF NOT EXISTS sessions_previous_token_hash ON sessions (previous_token_hash);
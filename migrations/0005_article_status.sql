@@ -0,0 +1,10 @@
+-- Migration number: 0005 	 2026-10-19T07:30:00.000Z
+-- Draft / review / published lifecycle. Articles that existed before this
+-- migration were already public, so they start out published.
+ALTER TABLE articles ADD COLUMN status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+ALTER TABLE articles ADD COLUMN published_at TEXT;
+
+UPDATE articles SET status = 'published', published_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now');
+
+CREATE INDEX IF NOT EXISTS articles_topic_status ON articles (topic_id, status);
@@ -0,0 +1,23 @@
+-- Migration number: 0006 	 2026-10-19T07:40:00.000Z
+-- Backing tables for CONTENT_STORE=d1. Every write also appends a revision so
+-- article history works the same way it does with GitHub commits.
+CREATE TABLE
+IF NOT EXISTS content_files
+(
+    path TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE
+IF NOT EXISTS content_revisions
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    path TEXT NOT NULL,
+    -- NULL marks a deletion
+    content TEXT,
+    message TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS content_revisions_path ON content_revisions (path, id);
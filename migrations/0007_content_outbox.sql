@@ -0,0 +1,24 @@
+-- Migration number: 0007 	 2026-10-19T07:50:00.000Z
+-- Pending ContentStore operations, written in the same batch as the D1 change
+-- they belong to. See src/outbox.ts for the retry/compensation rules.
+CREATE TABLE
+IF NOT EXISTS content_outbox
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL CHECK (kind IN ('article_create', 'article_update', 'article_delete')),
+    article_id INTEGER,
+    path TEXT NOT NULL,
+    content TEXT,
+    message TEXT NOT NULL,
+    -- JSON with the column values that undo the D1 change
+    rollback TEXT,
+    state TEXT NOT NULL DEFAULT 'pending'
+        CHECK (state IN ('pending', 'processing', 'done', 'compensated', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS content_outbox_state ON content_outbox (state, id);
+CREATE INDEX IF NOT EXISTS content_outbox_article ON content_outbox (article_id, id);
@@ -0,0 +1,33 @@
+-- Migration number: 0008 	 2026-10-19T08:00:00.000Z
+-- Support edits made directly in the content repository (push webhook):
+-- * topic_id becomes nullable so files added in the repo can be imported as
+--   unfiled drafts until someone picks a topic for them
+-- * content_updated_at records the last commit that touched the file
+-- * sync_flag marks rows whose file was removed in the repository
+-- SQLite cannot drop NOT NULL in place, so the table is rebuilt.
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE articles_new
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    topic_id INTEGER,
+    title TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    rank TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'published', 'archived')),
+    published_at TEXT,
+    content_updated_at TEXT,
+    sync_flag TEXT CHECK (sync_flag IN ('file_removed')),
+    FOREIGN KEY (topic_id) REFERENCES topics (id) ON DELETE CASCADE
+);
+
+INSERT INTO articles_new (id, topic_id, title, file_path, rank, status, published_at)
+SELECT id, topic_id, title, file_path, rank, status, published_at FROM articles;
+
+DROP TABLE articles;
+ALTER TABLE articles_new RENAME TO articles;
+
+CREATE INDEX IF NOT EXISTS articles_topic_status ON articles (topic_id, status);
+CREATE INDEX IF NOT EXISTS articles_file_path ON articles (file_path);
+
+PRAGMA defer_foreign_keys = false;
@@ -0,0 +1,48 @@
+-- Migration number: 0009 	 2026-10-19T08:10:00.000Z
+-- Full-text search over subject, topic and article titles and article content.
+-- Titles are kept in sync by the triggers below. Article bodies live in the
+-- content store, so the application writes them (see src/search.ts).
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5
+(
+    kind UNINDEXED,
+    ref_id UNINDEXED,
+    title,
+    body,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS subjects_search_insert AFTER INSERT ON subjects BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('subject', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS subjects_search_update AFTER UPDATE OF title ON subjects BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'subject' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS subjects_search_delete AFTER DELETE ON subjects BEGIN
+    DELETE FROM search_index WHERE kind = 'subject' AND ref_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS topics_search_insert AFTER INSERT ON topics BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('topic', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS topics_search_update AFTER UPDATE OF title ON topics BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'topic' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS topics_search_delete AFTER DELETE ON topics BEGIN
+    DELETE FROM search_index WHERE kind = 'topic' AND ref_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_search_insert AFTER INSERT ON articles BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('article', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS articles_search_update AFTER UPDATE OF title ON articles BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'article' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS articles_search_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM search_index WHERE kind = 'article' AND ref_id = OLD.id;
+END;
+
+-- Titles of existing rows; article bodies are filled in by
+-- POST /api/admin/search/reindex
+INSERT INTO search_index (kind, ref_id, title, body) SELECT 'subject', id, title, '' FROM subjects;
+INSERT INTO search_index (kind, ref_id, title, body) SELECT 'topic', id, title, '' FROM topics;
+INSERT INTO search_index (kind, ref_id, title, body) SELECT 'article', id, title, '' FROM articles;
@@ -0,0 +1,35 @@
+-- Migration number: 0010 	 2026-10-19T08:20:00.000Z
+-- Human-readable slugs. Subject slugs are unique overall, topic slugs within
+-- their subject and article slugs within their topic. Existing rows get their
+-- slugs from the scheduled worker (see fillMissingSlugs in src/slugs.ts), so
+-- they use the same slug rules as new rows.
+ALTER TABLE subjects ADD COLUMN slug TEXT;
+ALTER TABLE topics ADD COLUMN slug TEXT;
+ALTER TABLE articles ADD COLUMN slug TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS subjects_slug ON subjects (slug);
+CREATE UNIQUE INDEX IF NOT EXISTS topics_slug ON topics (subject_id, slug);
+CREATE UNIQUE INDEX IF NOT EXISTS articles_slug ON articles (topic_id, slug);
+
+-- Slugs a row answered to before a rename or move. `scope_id` is the parent
+-- the old slug lived under (0 for subjects and unfiled articles).
+CREATE TABLE
+IF NOT EXISTS slug_redirects
+(
+    kind TEXT NOT NULL CHECK (kind IN ('subject', 'topic', 'article')),
+    scope_id INTEGER NOT NULL DEFAULT 0,
+    old_slug TEXT NOT NULL,
+    target_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (kind, scope_id, old_slug)
+);
+
+CREATE TRIGGER IF NOT EXISTS subjects_slug_redirects_delete AFTER DELETE ON subjects BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'subject' AND target_id = OLD.id;
+END;
+CREATE TRIGGER IF NOT EXISTS topics_slug_redirects_delete AFTER DELETE ON topics BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'topic' AND target_id = OLD.id;
+END;
+CREATE TRIGGER IF NOT EXISTS articles_slug_redirects_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'article' AND target_id = OLD.id;
+END;
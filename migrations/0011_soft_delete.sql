@@ -0,0 +1,12 @@
+-- Migration number: 0011 	 2026-10-19T08:30:00.000Z
+-- Soft deletes. Deleting a subject or topic stamps it and everything under it
+-- that is not already in the trash with the same `deleted_at`, so a restore
+-- brings back exactly what that delete removed. Rows stay in the trash, with
+-- their ranks and content, until they are purged (see src/trash.ts).
+ALTER TABLE subjects ADD COLUMN deleted_at TEXT;
+ALTER TABLE topics ADD COLUMN deleted_at TEXT;
+ALTER TABLE articles ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX IF NOT EXISTS subjects_deleted_at ON subjects (deleted_at);
+CREATE INDEX IF NOT EXISTS topics_deleted_at ON topics (deleted_at);
+CREATE INDEX IF NOT EXISTS articles_deleted_at ON articles (deleted_at);
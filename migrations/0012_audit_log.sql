@@ -0,0 +1,21 @@
+-- Migration number: 0012 	 2026-10-19T08:40:00.000Z
+-- One row per successful admin write (see src/audit.ts). `before` and `after`
+-- are JSON snapshots of the entity's row, null where the entity has none.
+CREATE TABLE
+IF NOT EXISTS audit_log
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    username TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    before TEXT,
+    after TEXT,
+    request_id TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_user ON audit_log (user_id, id);
+CREATE INDEX IF NOT EXISTS audit_log_entity ON audit_log (entity_type, entity_id, id);
+CREATE INDEX IF NOT EXISTS audit_log_created_at ON audit_log (created_at);
@@ -4,7 +4,9 @@ IF NOT EXISTS subjects
 (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     title TEXT NOT NULL,
-    rank TEXT NOT NULL UNIQUE
+    rank TEXT NOT NULL UNIQUE,
+    slug TEXT,
+    deleted_at TEXT
 );
 
 CREATE TABLE
@@ -14,6 +16,8 @@ IF NOT EXISTS topics
     subject_id INTEGER NOT NULL,
     title TEXT NOT NULL,
     rank TEXT NOT NULL,
+    slug TEXT,
+    deleted_at TEXT,
     FOREIGN KEY
 (subject_id) REFERENCES subjects
 (id) ON
@@ -24,12 +28,199 @@ CREATE TABLE
 IF NOT EXISTS articles
 (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    topic_id INTEGER NOT NULL,
+    topic_id INTEGER,
     title TEXT NOT NULL,
     file_path TEXT NOT NULL,
     rank TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'published', 'archived')),
+    published_at TEXT,
+    content_updated_at TEXT,
+    sync_flag TEXT CHECK (sync_flag IN ('file_removed')),
+    slug TEXT,
+    deleted_at TEXT,
     FOREIGN KEY
 (topic_id) REFERENCES topics
 (id) ON
 DELETE CASCADE
-);
\ No newline at end of file
+);
+
+CREATE TABLE
+IF NOT EXISTS users
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    password_salt TEXT NOT NULL,
+    password_iterations INTEGER NOT NULL,
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'author', 'editor', 'owner')),
+    disabled INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+
+CREATE TABLE
+IF NOT EXISTS subject_grants
+(
+    user_id INTEGER NOT NULL,
+    subject_id INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'author', 'editor', 'owner')),
+    PRIMARY KEY (user_id, subject_id),
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+    FOREIGN KEY (subject_id) REFERENCES subjects (id) ON DELETE CASCADE
+);
+
+CREATE TABLE
+IF NOT EXISTS sessions
+(
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    previous_token_hash TEXT,
+    user_agent TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    last_used_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+CREATE INDEX IF NOT EXISTS sessions_previous_token_hash ON sessions (previous_token_hash);
+
+CREATE INDEX IF NOT EXISTS articles_topic_status ON articles (topic_id, status);
+CREATE INDEX IF NOT EXISTS articles_file_path ON articles (file_path);
+
+CREATE TABLE
+IF NOT EXISTS content_files
+(
+    path TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE
+IF NOT EXISTS content_revisions
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    path TEXT NOT NULL,
+    -- NULL marks a deletion
+    content TEXT,
+    message TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS content_revisions_path ON content_revisions (path, id);
+
+CREATE TABLE
+IF NOT EXISTS content_outbox
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL CHECK (kind IN ('article_create', 'article_update', 'article_delete')),
+    article_id INTEGER,
+    path TEXT NOT NULL,
+    content TEXT,
+    message TEXT NOT NULL,
+    -- JSON with the column values that undo the D1 change
+    rollback TEXT,
+    state TEXT NOT NULL DEFAULT 'pending'
+        CHECK (state IN ('pending', 'processing', 'done', 'compensated', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS content_outbox_state ON content_outbox (state, id);
+CREATE INDEX IF NOT EXISTS content_outbox_article ON content_outbox (article_id, id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5
+(
+    kind UNINDEXED,
+    ref_id UNINDEXED,
+    title,
+    body,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS subjects_search_insert AFTER INSERT ON subjects BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('subject', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS subjects_search_update AFTER UPDATE OF title ON subjects BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'subject' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS subjects_search_delete AFTER DELETE ON subjects BEGIN
+    DELETE FROM search_index WHERE kind = 'subject' AND ref_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS topics_search_insert AFTER INSERT ON topics BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('topic', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS topics_search_update AFTER UPDATE OF title ON topics BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'topic' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS topics_search_delete AFTER DELETE ON topics BEGIN
+    DELETE FROM search_index WHERE kind = 'topic' AND ref_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS articles_search_insert AFTER INSERT ON articles BEGIN
+    INSERT INTO search_index (kind, ref_id, title, body) VALUES ('article', NEW.id, NEW.title, '');
+END;
+CREATE TRIGGER IF NOT EXISTS articles_search_update AFTER UPDATE OF title ON articles BEGIN
+    UPDATE search_index SET title = NEW.title WHERE kind = 'article' AND ref_id = NEW.id;
+END;
+CREATE TRIGGER IF NOT EXISTS articles_search_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM search_index WHERE kind = 'article' AND ref_id = OLD.id;
+END;
+
+CREATE UNIQUE INDEX IF NOT EXISTS subjects_slug ON subjects (slug);
+CREATE UNIQUE INDEX IF NOT EXISTS topics_slug ON topics (subject_id, slug);
+CREATE UNIQUE INDEX IF NOT EXISTS articles_slug ON articles (topic_id, slug);
+
+-- Slugs a row answered to before a rename or move. `scope_id` is the parent
+-- the old slug lived under (0 for subjects and unfiled articles).
+CREATE TABLE
+IF NOT EXISTS slug_redirects
+(
+    kind TEXT NOT NULL CHECK (kind IN ('subject', 'topic', 'article')),
+    scope_id INTEGER NOT NULL DEFAULT 0,
+    old_slug TEXT NOT NULL,
+    target_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (kind, scope_id, old_slug)
+);
+
+CREATE TRIGGER IF NOT EXISTS subjects_slug_redirects_delete AFTER DELETE ON subjects BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'subject' AND target_id = OLD.id;
+END;
+CREATE TRIGGER IF NOT EXISTS topics_slug_redirects_delete AFTER DELETE ON topics BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'topic' AND target_id = OLD.id;
+END;
+CREATE TRIGGER IF NOT EXISTS articles_slug_redirects_delete AFTER DELETE ON articles BEGIN
+    DELETE FROM slug_redirects WHERE kind = 'article' AND target_id = OLD.id;
+END;
+
+CREATE INDEX IF NOT EXISTS subjects_deleted_at ON subjects (deleted_at);
+CREATE INDEX IF NOT EXISTS topics_deleted_at ON topics (deleted_at);
+CREATE INDEX IF NOT EXISTS articles_deleted_at ON articles (deleted_at);
+
+-- One row per successful admin write, with JSON snapshots of the entity's row
+-- before and after it (see src/audit.ts)
+CREATE TABLE
+IF NOT EXISTS audit_log
+(
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    username TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    before TEXT,
+    after TEXT,
+    request_id TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_user ON audit_log (user_id, id);
+CREATE INDEX IF NOT EXISTS audit_log_entity ON audit_log (entity_type, entity_id, id);
+CREATE INDEX IF NOT EXISTS audit_log_created_at ON audit_log (created_at);
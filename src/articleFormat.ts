@@ -0,0 +1,191 @@
+// src/articleFormat.ts
+import { z } from 'zod';
+import { ArticleBlock, ArticleDocument, CALLOUT_VARIANTS } from './types';
+
+// --- Validation ---
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+export const ArticleBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('heading'), level: z.literal([1, 2, 3, 4, 5, 6]), text: text(300) }),
+  z.object({ type: z.literal('paragraph'), text: text(20_000) }),
+  z.object({
+    type: z.literal('code'),
+    code: z.string().min(1).max(50_000),
+    language: z
+      .string()
+      .regex(/^[\w+#.-]{1,30}$/)
+      .optional(),
+  }),
+  z.object({ type: z.literal('math'), tex: text(5_000), display: z.boolean().optional() }),
+  z.object({
+    type: z.literal('image'),
+    // Absolute http(s) URLs only, so a rendered image can never carry a script URL
+    src: z.url({ protocol: /^https?$/ }),
+    alt: z.string().trim().max(500),
+    caption: z.string().trim().max(1_000).optional(),
+  }),
+  z.object({
+    type: z.literal('callout'),
+    variant: z.enum(CALLOUT_VARIANTS),
+    title: text(200).optional(),
+    text: text(5_000),
+  }),
+]);
+
+export const ArticleDocumentSchema = z.object({
+  version: z.literal(1),
+  blocks: z.array(ArticleBlockSchema).min(1).max(1_000),
+}) satisfies z.ZodType<ArticleDocument>;
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Article content on write: the document itself, or its JSON text (which is
+// what clients sent before the format existed)
+export const ArticleContentSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? parseJson(value) : value),
+  ArticleDocumentSchema
+);
+
+export const serializeArticle = (doc: ArticleDocument) => JSON.stringify(doc, null, 2);
+
+// Returns null for content that is not a valid document, e.g. files written
+// before the format existed
+export const parseArticle = (content: string): ArticleDocument | null => {
+  const result = ArticleDocumentSchema.safeParse(parseJson(content));
+  return result.success ? result.data : null;
+};
+
+// Plain text of a document, for the search index
+export const documentText = (doc: ArticleDocument) =>
+  doc.blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return block.text;
+        case 'code':
+          return block.code;
+        case 'math':
+          return block.tex;
+        case 'image':
+          return [block.alt, block.caption].filter(Boolean).join('\n');
+        case 'callout':
+          return [block.title, block.text].filter(Boolean).join('\n');
+      }
+    })
+    .join('\n');
+
+// --- HTML ---
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+
+// Blank lines separate paragraphs; single newlines become line breaks
+const htmlParagraphs = (value: string) =>
+  value
+    .split(/\n{2,}/)
+    .map((para) => `<p>${escapeHtml(para).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const blockToHtml = (block: ArticleBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return htmlParagraphs(block.text);
+    case 'code': {
+      const cls = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+      return `<pre><code${cls}>${escapeHtml(block.code)}</code></pre>`;
+    }
+    case 'math':
+      return block.display
+        ? `<div class="math math-display">\\[${escapeHtml(block.tex)}\\]</div>`
+        : `<span class="math math-inline">\\(${escapeHtml(block.tex)}\\)</span>`;
+    case 'image': {
+      const img = `<img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt)}" loading="lazy">`;
+      return block.caption
+        ? `<figure>${img}<figcaption>${escapeHtml(block.caption)}</figcaption></figure>`
+        : `<figure>${img}</figure>`;
+    }
+    case 'callout': {
+      const title = block.title ? `<p class="callout-title">${escapeHtml(block.title)}</p>\n` : '';
+      return `<aside class="callout callout-${block.variant}">\n${title}${htmlParagraphs(block.text)}\n</aside>`;
+    }
+  }
+};
+
+// --- Markdown ---
+
+const escapeMarkdown = (value: string) =>
+  value
+    .replace(/[\\`*_[\]<>|]/g, (ch) => `\\${ch}`)
+    // Characters that would start a heading, quote or list at a line start
+    .replace(/^(\s*)([#>+-]|\d+\.)/gm, (_, space, marker) => `${space}\\${marker}`);
+
+const fenceFor = (code: string) => {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+};
+
+// GitHub-style alerts, which most Markdown renderers show as callouts
+const ALERTS: Record<(typeof CALLOUT_VARIANTS)[number], string> = {
+  info: 'NOTE',
+  tip: 'TIP',
+  warning: 'WARNING',
+  danger: 'CAUTION',
+};
+
+const blockToMarkdown = (block: ArticleBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+    case 'paragraph':
+      return escapeMarkdown(block.text);
+    case 'code': {
+      const fence = fenceFor(block.code);
+      return `${fence}${block.language ?? ''}\n${block.code}\n${fence}`;
+    }
+    case 'math':
+      return block.display ? `$$\n${block.tex}\n$$` : `$${block.tex}$`;
+    case 'image': {
+      const title = block.caption ? ` "${block.caption.replace(/"/g, '\\"')}"` : '';
+      const src = block.src.replace(/[<> ]/g, encodeURIComponent);
+      return `![${escapeMarkdown(block.alt)}](<${src}>${title})`;
+    }
+    case 'callout': {
+      const lines = [
+        `[!${ALERTS[block.variant]}]`,
+        ...(block.title ? [`**${escapeMarkdown(block.title)}**`] : []),
+        ...escapeMarkdown(block.text).split('\n'),
+      ];
+      return lines.map((line) => (line ? `> ${line}` : '>')).join('\n');
+    }
+  }
+};
+
+// Renders stored content. Content that is not a valid document is shown as
+// preformatted text rather than dropped.
+export const renderArticle = (content: string, format: 'html' | 'markdown') => {
+  const doc = parseArticle(content);
+  if (format === 'html') {
+    return doc ? doc.blocks.map(blockToHtml).join('\n') : `<pre>${escapeHtml(content)}</pre>`;
+  }
+  if (!doc) {
+    const fence = fenceFor(content);
+    return `${fence}\n${content}\n${fence}\n`;
+  }
+  return `${doc.blocks.map(blockToMarkdown).join('\n\n')}\n`;
+};
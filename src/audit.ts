@@ -0,0 +1,258 @@
+// src/audit.ts
+import { Context, MiddlewareHandler } from 'hono';
+import { matchedRoutes } from 'hono/route';
+import { ArticleOrderSchema, ReorderSchema, TopicOrderSchema } from './schemas';
+import { AppEnv, AuditEntry } from './types';
+
+// Every successful admin write is recorded in `audit_log`: who made it, what
+// it did, the entity it touched with that entity's row before and after, and
+// the request id (X-Request-Id) that ties the entry to the request's logs.
+
+// Entities by the first path segment after /api/admin/, with the table and
+// the JSON object a snapshot of one row is. Ranked entities name the column
+// of their parent (null for the subjects, which form a single list).
+interface Entity {
+  type: string;
+  table?: string;
+  snapshot?: string;
+  parent?: string | null;
+}
+
+const ENTITIES: Record<string, Entity> = {
+  subjects: {
+    type: 'subject',
+    table: 'subjects',
+    snapshot: `json_object('id', id, 'title', title, 'slug', slug, 'rank', rank,
+                 'deleted_at', deleted_at)`,
+    parent: null,
+  },
+  topics: {
+    type: 'topic',
+    table: 'topics',
+    snapshot: `json_object('id', id, 'subject_id', subject_id, 'title', title, 'slug', slug,
+                 'rank', rank, 'deleted_at', deleted_at)`,
+    parent: 'subject_id',
+  },
+  articles: {
+    type: 'article',
+    table: 'articles',
+    snapshot: `json_object('id', id, 'topic_id', topic_id, 'title', title, 'slug', slug,
+                 'file_path', file_path, 'rank', rank, 'status', status,
+                 'published_at', published_at, 'deleted_at', deleted_at)`,
+    parent: 'topic_id',
+  },
+  users: {
+    type: 'user',
+    table: 'users',
+    snapshot: `json_object('id', id, 'username', username, 'role', role,
+                 'disabled', disabled,
+                 'grants', (SELECT json_group_array(json_object('subject_id', subject_id, 'role', role))
+                            FROM subject_grants WHERE user_id = users.id))`,
+  },
+  sessions: { type: 'session' },
+};
+
+const VERBS: Record<string, string> = { POST: 'create', PUT: 'update', DELETE: 'delete' };
+
+// Routes whose path does not name the entity they act on
+const OVERRIDES: Record<string, { type: string; action: string }> = {
+  'POST logout-all': { type: 'session', action: 'logout-all' },
+  'POST import': { type: 'curriculum', action: 'import' },
+  'PUT topics/order': { type: 'subject', action: 'topics.order' },
+  'PUT articles/order': { type: 'topic', action: 'articles.order' },
+};
+
+// Ordering routes that do not name the rows they change in the path.
+// Reorders name the item in the body. Orders and rebalances rewrite a whole
+// list (`list`, an ENTITIES key): their entry is about the list's parent,
+// taken from the body or the `:id` parameter (none for the subjects), and
+// the snapshots are the rows of the list in order.
+const TARGETS: Record<
+  string,
+  { list?: string; id: (body: unknown, param: string | null) => unknown }
+> = {
+  'POST subjects/reorder': { id: (body) => ReorderSchema.safeParse(body).data?.id },
+  'POST topics/reorder': { id: (body) => ReorderSchema.safeParse(body).data?.id },
+  'POST articles/reorder': { id: (body) => ReorderSchema.safeParse(body).data?.id },
+  'PUT subjects/order': { list: 'subjects', id: () => null },
+  'PUT topics/order': {
+    list: 'topics',
+    id: (body) => TopicOrderSchema.safeParse(body).data?.subjectId,
+  },
+  'PUT articles/order': {
+    list: 'articles',
+    id: (body) => ArticleOrderSchema.safeParse(body).data?.topicId,
+  },
+  'POST subjects/rebalance': { list: 'subjects', id: () => null },
+  'POST subjects/:id/topics/rebalance': { list: 'topics', id: (_, param) => param },
+  'POST topics/:id/articles/rebalance': { list: 'articles', id: (_, param) => param },
+};
+
+// What a route does to which entity, from its pattern: PUT /subjects/:id is
+// `update` on a subject, POST /topics/:id/move is `move` on a topic and
+// DELETE /users/:id/grants/:subjectId is `grants.delete` on a user. `id` is
+// the value of the route's `:id` parameter, or for the TARGETS routes the id
+// found in the JSON `body`; `list` is then the collection whose rows the
+// route rewrites under that id.
+export const describeRoute = (method: string, pattern: string, path: string, body?: unknown) => {
+  const segments = pattern.replace(/^\/api\/admin\/?/, '').split('/');
+  const values = path.replace(/^\/api\/admin\/?/, '').split('/');
+  const [collection, ...rest] = segments;
+
+  const words = rest.filter((segment) => !segment.startsWith(':'));
+  if (!rest.length || rest[rest.length - 1].startsWith(':')) {
+    words.push(VERBS[method] ?? method.toLowerCase());
+  }
+  const idIndex = segments.indexOf(':id');
+  const key = `${method} ${segments.join('/')}`;
+  const override = OVERRIDES[key];
+  const param = idIndex === -1 ? null : decodeURIComponent(values[idIndex] ?? '');
+  const target = TARGETS[key];
+  const id = target ? target.id(body, param) : param;
+  return {
+    collection,
+    type: override?.type ?? ENTITIES[collection]?.type ?? collection,
+    action: override?.action ?? words.join('.'),
+    id: id === undefined || id === null ? null : String(id),
+    list: target?.list ?? null,
+  };
+};
+
+// The row `id` of `collection` as a JSON object, or with `list` the rows of
+// that collection under the parent `id` as a JSON array
+const readSnapshot = async (
+  env: Env,
+  collection: string,
+  id: string | null,
+  list: string | null = null
+) => {
+  if (list) {
+    const { table, snapshot, parent } = ENTITIES[list];
+    if (parent === undefined || (parent !== null && id === null)) return null;
+    const row = await env.bodhak
+      .prepare(
+        `SELECT json_group_array(json(snapshot)) AS snapshot FROM (
+           SELECT ${snapshot} AS snapshot FROM ${table}
+           WHERE ${parent ? `${parent} = ?` : '? IS NULL'} ORDER BY rank ASC, id ASC)`
+      )
+      .bind(id)
+      .first<{ snapshot: string }>();
+    return row?.snapshot ?? null;
+  }
+
+  const { table, snapshot } = ENTITIES[collection] ?? {};
+  if (!table || !snapshot || id === null) return null;
+  const row = await env.bodhak
+    .prepare(`SELECT ${snapshot} AS snapshot FROM ${table} WHERE id = ?`)
+    .bind(id)
+    .first<{ snapshot: string }>();
+  return row?.snapshot ?? null;
+};
+
+// The JSON body of a write, read before the route's validator (Hono caches
+// it); undefined when there is none or it is malformed
+const readBody = async (c: Context<AppEnv>) => {
+  if (!c.req.header('Content-Type')?.includes('application/json')) return undefined;
+  try {
+    return (await c.req.json()) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+// Id of the entity a create route made, taken from its JSON response
+const createdId = async (c: Context<AppEnv>) => {
+  if (!c.res.headers.get('Content-Type')?.includes('application/json')) return null;
+  try {
+    const body = (await c.res.clone().json()) as { id?: unknown; user?: { id?: unknown } };
+    const id = body.id ?? body.user?.id;
+    return id === undefined || id === null ? null : String(id);
+  } catch {
+    return null;
+  }
+};
+
+// Middleware recording admin writes. Must run after `jwtAuth`.
+export const auditLog = (): MiddlewareHandler<AppEnv> => async (c, next) => {
+  if (c.req.method === 'GET' || c.req.method === 'HEAD' || c.req.method === 'OPTIONS') {
+    return next();
+  }
+  // The route that will handle the request; middleware is registered for ALL
+  const route = matchedRoutes(c)
+    .filter((r) => r.method !== 'ALL')
+    .pop();
+  if (!route) return next();
+
+  const { collection, type, action, id, list } = describeRoute(
+    c.req.method,
+    route.path,
+    c.req.path,
+    await readBody(c)
+  );
+  const before = await readSnapshot(c.env, collection, id, list);
+  await next();
+  if (c.res.status >= 400) return;
+
+  try {
+    const entityId = id ?? (c.req.method === 'POST' && !list ? await createdId(c) : null);
+    const after = await readSnapshot(c.env, collection, entityId, list);
+    const { sub, username } = c.get('jwtPayload');
+    await c.env.bodhak
+      .prepare(
+        `INSERT INTO audit_log
+           (user_id, username, action, entity_type, entity_id, before, after, request_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(sub, username, action, type, entityId, before, after, c.get('requestId') ?? null)
+      .run();
+  } catch (err) {
+    // The write itself went through; a missing audit entry must not fail it
+    // eslint-disable-next-line no-console
+    console.error('Failed to write audit log entry:', err);
+  }
+};
+
+export interface AuditFilters {
+  userId?: number;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+  // Id of the last entry of the previous page
+  cursor?: number;
+  limit: number;
+}
+
+// Newest first. `next` is the cursor for the following page, null on the last.
+export const listAudit = async (env: Env, filters: AuditFilters) => {
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT id, user_id, username, action, entity_type, entity_id, before, after, request_id,
+              created_at
+       FROM audit_log
+       WHERE (?1 IS NULL OR user_id = ?1) AND (?2 IS NULL OR entity_type = ?2)
+         AND (?3 IS NULL OR entity_id = ?3) AND (?4 IS NULL OR created_at >= ?4)
+         AND (?5 IS NULL OR created_at < ?5) AND (?6 IS NULL OR id < ?6)
+       ORDER BY id DESC LIMIT ?7`
+    )
+    .bind(
+      filters.userId ?? null,
+      filters.entityType ?? null,
+      filters.entityId ?? null,
+      filters.from ?? null,
+      filters.to ?? null,
+      filters.cursor ?? null,
+      filters.limit + 1
+    )
+    .all<Omit<AuditEntry, 'before' | 'after'> & { before: string | null; after: string | null }>();
+
+  const page = results.slice(0, filters.limit);
+  return {
+    data: page.map((row): AuditEntry => ({
+      ...row,
+      before: row.before === null ? null : JSON.parse(row.before),
+      after: row.after === null ? null : JSON.parse(row.after),
+    })),
+    next: results.length > filters.limit ? page[page.length - 1].id : null,
+  };
+};
@@ -2,6 +2,23 @@
 import { MiddlewareHandler, Context } from 'hono';
 import { sign, verify } from 'hono/jwt';
 import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
+import { errorResponse } from './errors';
+import { authenticateUser, ensureBootstrapAdmin, getUserById } from './users';
+import {
+  ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+  createSession,
+  findSessionByRefreshToken,
+  isSessionActive,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from './sessions';
+import { AuthPayload, User } from './types';
+
+// The refresh cookie is kept off the public routes. Browsers send it with every
+// admin API request, but only the refresh and logout routes read it.
+const REFRESH_COOKIE_PATH = '/api/admin';
 
 // Middleware to check for admin JWT
 export const jwtAuth =
@@ -9,50 +26,123 @@ export const jwtAuth =
   async (c, next) => {
     const token = getCookie(c, 'token');
     if (!token) {
-      return c.json({ error: 'Unauthorized: No token provided' }, 401);
+      return errorResponse(c, 401, 'Unauthorized: No token provided');
     }
 
+    let payload: AuthPayload;
     try {
-      const payload = await verify(token, secret);
-      c.set('jwtPayload', payload);
-      await next();
+      payload = (await verify(token, secret)) as unknown as AuthPayload;
     } catch (err) {
       // Log verification errors for debugging; don't silently swallow them
       // eslint-disable-next-line no-console
       console.error('JWT verification failed:', err);
-      return c.json({ error: 'Unauthorized: Invalid token' }, 401);
+      return errorResponse(c, 401, 'Unauthorized: Invalid token');
+    }
+
+    if (!payload.sid || !(await isSessionActive(c.env, payload.sid))) {
+      return errorResponse(c, 401, 'Unauthorized: Session revoked or expired');
     }
+
+    c.set('jwtPayload', payload);
+    await next();
   };
 
+// Signs a short-lived access token for the session and sets both cookies
+const issueTokens = async (c: Context, user: User, sessionId: string, refreshToken: string) => {
+  const token = await sign(
+    {
+      sub: String(user.id),
+      sid: sessionId,
+      username: user.username,
+      role: user.role,
+      exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL,
+    },
+    c.env.JWT_SECRET
+  );
+
+  setCookie(c, 'token', token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+    maxAge: ACCESS_TOKEN_TTL,
+  });
+  setCookie(c, 'refresh_token', refreshToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Strict',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_TOKEN_TTL,
+  });
+};
+
+const clearTokens = (c: Context) => {
+  deleteCookie(c, 'token');
+  deleteCookie(c, 'refresh_token', { path: REFRESH_COOKIE_PATH });
+};
+
 // Login route handler
 export const loginHandler = async (c: Context) => {
   const { username, password } = await c.req.json();
 
-  if (username === c.env.ADMIN_USERNAME && password === c.env.ADMIN_PASSWORD) {
-    const token = await sign(
-      {
-        sub: c.env.ADMIN_USERNAME,
-        role: 'admin',
-        exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24,
-      },
-      c.env.JWT_SECRET
-    );
-
-    setCookie(c, 'token', token, {
-      httpOnly: true,
-      secure: true,
-      sameSite: 'Lax',
-      maxAge: 60 * 60 * 24,
-    });
-
-    return c.json({ message: 'Login successful' });
+  // First login on an empty users table creates the account from the env vars
+  await ensureBootstrapAdmin(c.env);
+
+  const user = await authenticateUser(c.env, String(username ?? ''), String(password ?? ''));
+  if (!user) {
+    return errorResponse(c, 401, 'Invalid credentials');
   }
+  if (user.disabled) {
+    return errorResponse(c, 403, 'Account disabled');
+  }
+
+  const session = await createSession(c.env, user.id, c.req.header('user-agent') ?? null);
+  await issueTokens(c, user, session.id, session.refreshToken);
 
-  return c.json({ error: 'Invalid credentials' }, 401);
+  return c.json({ message: 'Login successful', user });
 };
 
-// Logout route handler
+// Refresh route handler: rotates the refresh token and issues a new access token
+export const refreshHandler = async (c: Context) => {
+  const refreshToken = getCookie(c, 'refresh_token');
+  if (!refreshToken) {
+    return errorResponse(c, 401, 'Unauthorized: No refresh token provided');
+  }
+
+  const session = await rotateRefreshToken(c.env, refreshToken);
+  if (!session) {
+    clearTokens(c);
+    return errorResponse(c, 401, 'Unauthorized: Invalid refresh token');
+  }
+
+  const user = await getUserById(c.env, session.userId);
+  if (!user || user.disabled) {
+    await revokeSession(c.env, session.id);
+    clearTokens(c);
+    return errorResponse(c, 401, 'Unauthorized: Account disabled');
+  }
+
+  await issueTokens(c, user, session.id, session.refreshToken);
+  return c.json({ message: 'Token refreshed' });
+};
+
+// Logout route handler: revokes the current session server-side
 export const logoutHandler = async (c: Context) => {
-  deleteCookie(c, 'token');
+  const refreshToken = getCookie(c, 'refresh_token');
+  if (refreshToken) {
+    const session = await findSessionByRefreshToken(c.env, refreshToken);
+    if (session) await revokeSession(c.env, session.id);
+  }
+
+  clearTokens(c);
   return c.json({ message: 'Logout successful' });
 };
+
+// Logout-all route handler: revokes every session of the caller. Runs behind
+// `jwtAuth`, so the payload is always present.
+export const logoutAllHandler = async (c: Context) => {
+  const { sub } = c.get('jwtPayload') as AuthPayload;
+  const revoked = await revokeUserSessions(c.env, sub);
+
+  clearTokens(c);
+  return c.json({ message: 'All sessions revoked', revoked });
+};
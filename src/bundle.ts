@@ -0,0 +1,456 @@
+// src/bundle.ts
+import { LexoRank } from '@dalet-oss/lexorank';
+import { getContentStore } from './contentStore';
+import { enqueue, enqueueArticleDeletes, processOutboxBatch } from './outbox';
+import {
+  Article,
+  BundleArticle,
+  CurriculumBundle,
+  ImportCounts,
+  ImportMode,
+  ImportReport,
+  Subject,
+  Topic,
+} from './types';
+
+export const BUNDLE_VERSION = 1 as const;
+
+// The curriculum as stored (without the trash), with the content of every
+// article by article id
+export interface Curriculum {
+  subjects: Subject[];
+  topics: Topic[];
+  articles: Article[];
+  contents: Map<number, string | null>;
+  // Files of articles in the trash, which new articles must not reuse
+  trashedPaths?: string[];
+  // Rows in the trash, which replace mode deletes too
+  trashedCounts?: { subjects: number; topics: number; articles: number };
+  // Highest rank in each list, trashed rows included, by listKey()
+  lastRanks?: Map<string, string>;
+}
+
+type ListKind = 'subject' | 'topic' | 'article';
+
+// Parents the import creates are named by a string instead of an id
+export const listKey = (kind: ListKind, parent: number | string | null) => `${kind}:${parent}`;
+
+interface TrashedPath {
+  file_path: string;
+}
+
+interface TrashedCounts {
+  subjects: number;
+  topics: number;
+  articles: number;
+}
+
+// The highest rank under one parent; null for an empty table
+interface LastRank {
+  kind: ListKind;
+  parent: number | null;
+  rank: string | null;
+}
+
+const loadCurriculum = async (env: Env): Promise<Curriculum> => {
+  const db = env.bodhak;
+  // One batch, so every part comes from the same state of the database
+  const [subjects, topics, articles, trashed, lastRanks, trashedCounts] = (await db.batch([
+    db.prepare('SELECT id, title, rank FROM subjects WHERE deleted_at IS NULL ORDER BY rank ASC'),
+    db.prepare(
+      'SELECT id, subject_id, title, rank FROM topics WHERE deleted_at IS NULL ORDER BY rank ASC'
+    ),
+    db.prepare(
+      `SELECT id, topic_id, title, file_path, rank, status, published_at FROM articles
+       WHERE deleted_at IS NULL ORDER BY rank ASC`
+    ),
+    db.prepare('SELECT file_path FROM articles WHERE deleted_at IS NOT NULL'),
+    db.prepare(
+      `SELECT 'subject' AS kind, NULL AS parent, MAX(rank) AS rank FROM subjects
+       UNION ALL SELECT 'topic', subject_id, MAX(rank) FROM topics GROUP BY subject_id
+       UNION ALL SELECT 'article', topic_id, MAX(rank) FROM articles GROUP BY topic_id`
+    ),
+    db.prepare(
+      `SELECT (SELECT COUNT(*) FROM subjects WHERE deleted_at IS NOT NULL) AS subjects,
+              (SELECT COUNT(*) FROM topics WHERE deleted_at IS NOT NULL) AS topics,
+              (SELECT COUNT(*) FROM articles WHERE deleted_at IS NOT NULL) AS articles`
+    ),
+  ])) as [
+    D1Result<Subject>,
+    D1Result<Topic>,
+    D1Result<Article>,
+    D1Result<TrashedPath>,
+    D1Result<LastRank>,
+    D1Result<TrashedCounts>,
+  ];
+  const rows = articles.results;
+  const store = getContentStore(env);
+  const contents = await Promise.all(rows.map((article) => store.get(article.file_path)));
+  return {
+    subjects: subjects.results,
+    topics: topics.results,
+    articles: rows,
+    contents: new Map(rows.map((article, i) => [article.id, contents[i]])),
+    trashedPaths: trashed.results.map((row) => row.file_path),
+    trashedCounts: trashedCounts.results[0],
+    lastRanks: new Map(
+      lastRanks.results.flatMap((row) =>
+        row.rank === null ? [] : [[listKey(row.kind, row.parent), row.rank] as const]
+      )
+    ),
+  };
+};
+
+const toBundleArticle = (article: Article, content: string | null): BundleArticle => ({
+  title: article.title,
+  rank: article.rank,
+  status: article.status,
+  published_at: article.published_at,
+  file_path: article.file_path,
+  content,
+});
+
+export const exportCurriculum = async (env: Env): Promise<CurriculumBundle> => {
+  const { subjects, topics, articles, contents } = await loadCurriculum(env);
+  const articlesIn = (topicId: number | null) =>
+    articles
+      .filter((article) => article.topic_id === topicId)
+      .map((article) => toBundleArticle(article, contents.get(article.id) ?? null));
+
+  return {
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    subjects: subjects.map((subject) => ({
+      title: subject.title,
+      rank: subject.rank,
+      topics: topics
+        .filter((topic) => topic.subject_id === subject.id)
+        .map((topic) => ({ title: topic.title, rank: topic.rank, articles: articlesIn(topic.id) })),
+    })),
+    unfiledArticles: articlesIn(null),
+  };
+};
+
+// Rows the import creates have no id until the batch runs. A parent created
+// by the same import is found by its rank instead, which is unique among its
+// siblings: new rows are ranked after every existing one, trashed rows
+// included (subjects.rank is UNIQUE and the trash keeps its ranks).
+export type SubjectRef = { id: number } | { rank: string };
+export type TopicRef = { id: number } | { subject: SubjectRef; rank: string };
+
+type PlannedArticle = Pick<Article, 'title' | 'file_path' | 'rank' | 'status' | 'published_at'> & {
+  topic: TopicRef | null;
+  content: string | null;
+};
+
+type ArticleUpdate = Pick<Article, 'id' | 'title' | 'file_path' | 'status' | 'published_at'> & {
+  content: string | null;
+  contentChanged: boolean;
+  // The row before the import, used to roll a failed write back
+  previous: Article;
+};
+
+export interface ImportPlan {
+  report: Omit<ImportReport, 'dryRun'>;
+  subjectInserts: Pick<Subject, 'title' | 'rank'>[];
+  topicInserts: Array<Pick<Topic, 'title' | 'rank'> & { subject: SubjectRef }>;
+  articleInserts: PlannedArticle[];
+  articleUpdates: ArticleUpdate[];
+}
+
+const emptyCounts = (): ImportCounts => ({
+  created: 0,
+  updated: 0,
+  unchanged: 0,
+  deleted: 0,
+  purged: 0,
+});
+
+// Removes and returns the first row with the given title, so two bundle
+// entries with the same title never both match one existing row
+const takeByTitle = <T extends { title: string }>(pool: T[], title: string) => {
+  const index = pool.findIndex((row) => row.title === title);
+  return index === -1 ? undefined : pool.splice(index, 1)[0];
+};
+
+// Works out what importing a bundle would change, without touching anything.
+// - merge: subjects, topics and articles are matched by title within their
+//   parent; matches keep their place and take the bundle's status and
+//   content, the rest are added after their siblings in bundle order, and
+//   nothing is deleted
+// - replace: the current curriculum, trash included, is deleted and the
+//   bundle recreated; `purged` counts the trashed rows
+export const planImport = (
+  bundle: CurriculumBundle,
+  current: Curriculum,
+  mode: ImportMode
+): ImportPlan => {
+  const plan: ImportPlan = {
+    report: { mode, subjects: emptyCounts(), topics: emptyCounts(), articles: emptyCounts() },
+    subjectInserts: [],
+    topicInserts: [],
+    articleInserts: [],
+    articleUpdates: [],
+  };
+  const { report } = plan;
+
+  const existing: Curriculum =
+    mode === 'merge' ? current : { subjects: [], topics: [], articles: [], contents: new Map() };
+  if (mode === 'replace') {
+    report.subjects.deleted = current.subjects.length;
+    report.topics.deleted = current.topics.length;
+    report.articles.deleted = current.articles.length;
+    report.subjects.purged = current.trashedCounts?.subjects ?? 0;
+    report.topics.purged = current.trashedCounts?.topics ?? 0;
+    report.articles.purged = current.trashedCounts?.articles ?? 0;
+  }
+
+  const subjectPool = [...existing.subjects];
+  const topicPool = [...existing.topics];
+  const articlePool = [...existing.articles];
+  const usedPaths = new Set([
+    ...existing.articles.map((article) => article.file_path),
+    ...(existing.trashedPaths ?? []),
+  ]);
+
+  // Rank for a row added to the end of a list. Lists under a new parent are
+  // keyed by the parent's rank and start out empty.
+  const lastRanks = new Map(existing.lastRanks);
+  const appendRank = (key: string) => {
+    const last = lastRanks.get(key);
+    const rank = (last ? LexoRank.parse(last).genNext() : LexoRank.middle()).toString();
+    lastRanks.set(key, rank);
+    return rank;
+  };
+
+  const freePath = (item: BundleArticle) => {
+    if (!usedPaths.has(item.file_path)) return item.file_path;
+    const slug = item.title.replaceAll(/[^a-z0-9]/gi, '_').toLowerCase();
+    let n = 1;
+    while (usedPaths.has(`articles/${slug}-import-${n}.json`)) n++;
+    return `articles/${slug}-import-${n}.json`;
+  };
+
+  const planArticles = (items: BundleArticle[], topic: TopicRef | null, list: string) => {
+    // A new topic has no articles yet
+    const siblings =
+      topic === null || 'id' in topic
+        ? articlePool.filter((article) => article.topic_id === (topic?.id ?? null))
+        : [];
+    for (const item of items) {
+      const match = takeByTitle(siblings, item.title);
+      if (match) {
+        const contentChanged =
+          item.content !== null && item.content !== existing.contents.get(match.id);
+        const changed =
+          contentChanged ||
+          match.status !== item.status ||
+          match.published_at !== item.published_at;
+        if (!changed) {
+          report.articles.unchanged++;
+          continue;
+        }
+        plan.articleUpdates.push({
+          id: match.id,
+          title: match.title,
+          file_path: match.file_path,
+          status: item.status,
+          published_at: item.published_at,
+          content: item.content,
+          contentChanged,
+          previous: match,
+        });
+        report.articles.updated++;
+        continue;
+      }
+
+      const filePath = freePath(item);
+      usedPaths.add(filePath);
+      plan.articleInserts.push({
+        topic,
+        title: item.title,
+        file_path: filePath,
+        rank: appendRank(list),
+        status: item.status,
+        published_at: item.published_at,
+        content: item.content,
+      });
+      report.articles.created++;
+    }
+  };
+
+  for (const subject of bundle.subjects) {
+    let subjectRef: SubjectRef;
+    // Names the subject in listKey(); a new one by its rank
+    let subjectKey: number | string;
+    const subjectMatch = takeByTitle(subjectPool, subject.title);
+    if (subjectMatch) {
+      subjectRef = { id: subjectMatch.id };
+      subjectKey = subjectMatch.id;
+      report.subjects.unchanged++;
+    } else {
+      const rank = appendRank(listKey('subject', null));
+      subjectRef = { rank };
+      subjectKey = `new ${rank}`;
+      plan.subjectInserts.push({ title: subject.title, rank });
+      report.subjects.created++;
+    }
+
+    const siblings = topicPool.filter((topic) => topic.subject_id === subjectMatch?.id);
+    for (const topic of subject.topics) {
+      let topicRef: TopicRef;
+      let topicKey: number | string;
+      const topicMatch = takeByTitle(siblings, topic.title);
+      if (topicMatch) {
+        topicRef = { id: topicMatch.id };
+        topicKey = topicMatch.id;
+        report.topics.unchanged++;
+      } else {
+        const rank = appendRank(listKey('topic', subjectKey));
+        topicRef = { subject: subjectRef, rank };
+        topicKey = `new ${subjectKey} ${rank}`;
+        plan.topicInserts.push({ subject: subjectRef, title: topic.title, rank });
+        report.topics.created++;
+      }
+      planArticles(topic.articles, topicRef, listKey('article', topicKey));
+    }
+  }
+  planArticles(bundle.unfiledArticles, null, listKey('article', null));
+
+  return plan;
+};
+
+// SQL for the id of a planned parent, with its parameters
+const subjectIdSql = (ref: SubjectRef): { sql: string; params: unknown[] } =>
+  'id' in ref
+    ? { sql: '?', params: [ref.id] }
+    : { sql: '(SELECT id FROM subjects WHERE rank = ?)', params: [ref.rank] };
+
+const topicIdSql = (ref: TopicRef | null): { sql: string; params: unknown[] } => {
+  if (ref === null || 'id' in ref) return { sql: '?', params: [ref?.id ?? null] };
+  const subject = subjectIdSql(ref.subject);
+  return {
+    sql: `(SELECT id FROM topics WHERE subject_id = ${subject.sql} AND rank = ?)`,
+    params: [...subject.params, ref.rank],
+  };
+};
+
+// Loads a bundle. All D1 changes run in one batch, so a failed import leaves
+// the database untouched; content writes and removals go through the outbox
+// as a single storage commit. Replace mode deletes every subject, which also
+// drops the per-subject grants.
+export const importCurriculum = async (
+  env: Env,
+  bundle: CurriculumBundle,
+  { mode = 'merge', dryRun = false }: { mode?: ImportMode; dryRun?: boolean } = {}
+) => {
+  const current = await loadCurriculum(env);
+  const plan = planImport(bundle, current, mode);
+  const report: ImportReport = { ...plan.report, dryRun };
+  // Articles whose cached content is no longer current
+  const changedArticleIds =
+    mode === 'replace'
+      ? current.articles.map((article) => article.id)
+      : plan.articleUpdates.map((article) => article.id);
+  if (dryRun) return { report, contentWrites: null, changedArticleIds: [] };
+
+  const db = env.bodhak;
+  const statements: D1PreparedStatement[] = [];
+  // Positions in `statements` of the outbox inserts, which return entry ids
+  const outboxStatements: number[] = [];
+  const queue = (statement: D1PreparedStatement) => {
+    outboxStatements.push(statements.length);
+    statements.push(statement);
+  };
+
+  if (mode === 'replace') {
+    // Files that new rows reuse are overwritten (or kept), not removed
+    queue(
+      enqueueArticleDeletes(
+        env,
+        'Removed by curriculum import',
+        'file_path NOT IN (SELECT value FROM json_each(?))',
+        JSON.stringify(plan.articleInserts.map((article) => article.file_path))
+      )
+    );
+    statements.push(db.prepare('DELETE FROM articles'), db.prepare('DELETE FROM subjects'));
+  }
+
+  for (const subject of plan.subjectInserts) {
+    statements.push(
+      db
+        .prepare('INSERT INTO subjects (title, rank) VALUES (?, ?)')
+        .bind(subject.title, subject.rank)
+    );
+  }
+  for (const topic of plan.topicInserts) {
+    const subject = subjectIdSql(topic.subject);
+    statements.push(
+      db
+        .prepare(`INSERT INTO topics (subject_id, title, rank) VALUES (${subject.sql}, ?, ?)`)
+        .bind(...subject.params, topic.title, topic.rank)
+    );
+  }
+  for (const article of plan.articleInserts) {
+    const topic = topicIdSql(article.topic);
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO articles (topic_id, title, file_path, rank, status, published_at)
+           VALUES (${topic.sql}, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          ...topic.params,
+          article.title,
+          article.file_path,
+          article.rank,
+          article.status,
+          article.published_at
+        )
+    );
+    // Right after its INSERT, so the entry picks up the new article id
+    if (article.content !== null) {
+      queue(
+        enqueue(env, {
+          kind: 'article_create',
+          path: article.file_path,
+          content: article.content,
+          message: `Imported article: ${article.title}`,
+        })
+      );
+    }
+  }
+  for (const article of plan.articleUpdates) {
+    statements.push(
+      db
+        .prepare('UPDATE articles SET status = ?, published_at = ? WHERE id = ?')
+        .bind(article.status, article.published_at, article.id)
+    );
+    if (article.contentChanged) {
+      queue(
+        enqueue(env, {
+          kind: 'article_update',
+          articleId: article.id,
+          path: article.file_path,
+          content: article.content ?? '',
+          message: `Imported article: ${article.title}`,
+          rollback: {
+            status: article.previous.status,
+            published_at: article.previous.published_at,
+          },
+        })
+      );
+    }
+  }
+
+  if (!statements.length) return { report, contentWrites: null, changedArticleIds };
+
+  const results = await db.batch<{ id: number }>(statements);
+  const outboxIds = outboxStatements.flatMap((i) => results[i].results.map((r) => r.id));
+  const outcome = await processOutboxBatch(
+    env,
+    outboxIds,
+    `Imported curriculum bundle (${mode}, ${outboxIds.length} files)`
+  );
+  return { report, contentWrites: outcome.state, changedArticleIds };
+};
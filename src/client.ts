@@ -0,0 +1,121 @@
+// src/client.ts
+import {
+  ClientRequestOptions,
+  ClientResponse,
+  DetailedError,
+  hc,
+  InferRequestType,
+  parseResponse,
+} from 'hono/client';
+import type { AppType } from './index';
+import type { ApiErrorBody, ErrorCode } from './types';
+
+// Typed client for front ends. Requests and responses are typed from the
+// routes themselves (AppType), so a route change that breaks a caller fails
+// its type-check instead of failing at runtime. Only types are imported from
+// the worker; the module itself depends on hono/client alone.
+
+export type { AppType };
+export type {
+  ApiErrorBody,
+  Article,
+  ArticleBlock,
+  ArticleDocument,
+  ArticleStatus,
+  AuditEntry,
+  CurriculumBundle,
+  ErrorCode,
+  ImportReport,
+  Role,
+  SearchResult,
+  Session,
+  Subject,
+  Topic,
+  TrashItem,
+  TreeArticle,
+  TreeSubject,
+  TreeTopic,
+  User,
+} from './types';
+
+// Sends the session cookies along, also to an API on another origin. The
+// workers' RequestInit type has no `credentials`, which browsers honour.
+export const createClient = (baseUrl: string, options: ClientRequestOptions = {}) =>
+  hc<AppType>(baseUrl, {
+    ...options,
+    init: { credentials: 'include', ...options.init } as RequestInit,
+  });
+
+export type Client = ReturnType<typeof createClient>;
+
+// A response outside 2xx, with the error envelope of src/errors.ts when the
+// body was one
+export class ApiClientError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode | null,
+    readonly requestId: string | null,
+    readonly details?: unknown
+  ) {
+    super(`Request failed with status ${status}`);
+    this.name = 'ApiClientError';
+  }
+}
+
+const isErrorBody = (data: unknown): data is ApiErrorBody =>
+  typeof data === 'object' && data !== null && 'error' in data && 'code' in data;
+
+// The body of a successful response, typed by its route. Errors are thrown as
+// ApiClientError.
+export const unwrap = async <T extends ClientResponse<unknown>>(response: T | Promise<T>) => {
+  try {
+    return await parseResponse(response);
+  } catch (err) {
+    if (!(err instanceof DetailedError)) throw err;
+    const data: unknown = err.detail?.data;
+    if (!isErrorBody(data)) throw new ApiClientError(err.statusCode, null, null, data);
+    const error = new ApiClientError(err.statusCode, data.code, data.requestId, data.details);
+    error.message = data.error;
+    throw error;
+  }
+};
+
+// JSON body of a route, e.g. Json<typeof client.api.admin.subjects.$post>
+export type Json<T> = InferRequestType<T> extends { json: infer J } ? J : never;
+
+type Id = number | string;
+const param = (id: Id) => ({ id: String(id) });
+
+// The admin flows a front end needs most. Everything else is reachable
+// through the client itself, e.g. client.api.admin.trash.$get().
+export const adminApi = (client: Client) => {
+  const { admin } = client.api;
+  return {
+    login: (username: string, password: string) =>
+      unwrap(admin.login.$post({ json: { username, password } })),
+    refresh: () => unwrap(admin.refresh.$post()),
+    logout: () => unwrap(admin.logout.$post()),
+
+    createSubject: (json: Json<typeof admin.subjects.$post>) =>
+      unwrap(admin.subjects.$post({ json })),
+    createTopic: (json: Json<typeof admin.topics.$post>) => unwrap(admin.topics.$post({ json })),
+    createArticle: (json: Json<typeof admin.articles.$post>) =>
+      unwrap(admin.articles.$post({ json })),
+
+    reorderSubject: (json: Json<typeof admin.subjects.reorder.$post>) =>
+      unwrap(admin.subjects.reorder.$post({ json })),
+    reorderTopic: (json: Json<typeof admin.topics.reorder.$post>) =>
+      unwrap(admin.topics.reorder.$post({ json })),
+    reorderArticle: (json: Json<typeof admin.articles.reorder.$post>) =>
+      unwrap(admin.articles.reorder.$post({ json })),
+
+    moveTopic: (id: Id, json: Json<(typeof admin.topics)[':id']['move']['$post']>) =>
+      unwrap(admin.topics[':id'].move.$post({ param: param(id), json })),
+    moveArticle: (id: Id, json: Json<(typeof admin.articles)[':id']['move']['$post']>) =>
+      unwrap(admin.articles[':id'].move.$post({ param: param(id), json })),
+
+    deleteSubject: (id: Id) => unwrap(admin.subjects[':id'].$delete({ param: param(id) })),
+    deleteTopic: (id: Id) => unwrap(admin.topics[':id'].$delete({ param: param(id) })),
+    deleteArticle: (id: Id) => unwrap(admin.articles[':id'].$delete({ param: param(id) })),
+  };
+};
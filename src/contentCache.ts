@@ -0,0 +1,57 @@
+// src/contentCache.ts
+
+// Edge cache for GET /api/articles/:id/content (Workers Cache API). Entries
+// are keyed by the public URL without its query string. The Cache API is
+// local to each data centre, so a purge only reaches the one that handled the
+// admin request; CACHE_TTL_SECONDS bounds how stale the others can get.
+
+export const CACHE_TTL_SECONDS = 300;
+
+// `requestUrl` is any URL on this worker; only its origin is used
+const cacheKey = (requestUrl: string, id: number | string) =>
+  new Request(new URL(`/api/articles/${id}/content`, requestUrl));
+
+// Strong ETag from the content itself, so it only changes when the bytes do
+export const etagFor = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `"${hex.slice(0, 32)}"`;
+};
+
+// True when an If-None-Match header lists the ETag (or is `*`)
+export const etagMatches = (header: string | undefined, etag: string) =>
+  !!header &&
+  header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+
+export const buildContentResponse = async (content: string) => {
+  let contentType = 'application/json; charset=utf-8';
+  try {
+    JSON.parse(content);
+  } catch {
+    contentType = 'text/plain; charset=utf-8';
+  }
+  return new Response(content, {
+    headers: {
+      'Content-Type': contentType,
+      ETag: await etagFor(content),
+      'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+    },
+  });
+};
+
+// Responses from the cache have immutable headers; copy them so middleware
+// (CORS) can still add its own
+export const getCachedContent = async (requestUrl: string, id: number | string) => {
+  const cached = await caches.default.match(cacheKey(requestUrl, id));
+  return cached ? new Response(cached.body, cached) : undefined;
+};
+
+export const cacheContent = (requestUrl: string, id: number | string, response: Response) =>
+  caches.default.put(cacheKey(requestUrl, id), response);
+
+export const purgeArticleContent = async (requestUrl: string, ids: Array<number | string>) => {
+  await Promise.all(ids.map((id) => caches.default.delete(cacheKey(requestUrl, id))));
+};
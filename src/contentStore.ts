@@ -0,0 +1,265 @@
+// src/contentStore.ts
+import {
+  commitGitHubChanges,
+  createGitHubFile,
+  deleteGitHubFile,
+  getFileContent,
+  getFileSha,
+  listFileCommits,
+  listGitHubFiles,
+  updateGitHubFile,
+} from './github';
+import { ArticleRevision, FileChange } from './types';
+
+// Where article bodies live. Metadata always stays in D1; the store only deals
+// with file paths and their content. Every write takes a message so backends
+// with history (GitHub commits, D1 revisions) can describe the change.
+export interface ContentStore {
+  // Returns the content, optionally at an older revision, or null if missing
+  get(path: string, revision?: string): Promise<string | null>;
+  // Creates a new file; throws if it already exists
+  create(path: string, content: string, message: string): Promise<void>;
+  // Replaces an existing file; returns false when there is nothing to update
+  update(path: string, content: string, message: string): Promise<boolean>;
+  // Removes a file; returns false when it did not exist
+  delete(path: string, message: string): Promise<boolean>;
+  // Lists revisions of a file, newest first
+  history(path: string, page?: number): Promise<ArticleRevision[]>;
+  // Lists the paths of the files under a directory (e.g. 'articles')
+  list(dir: string): Promise<string[]>;
+  // Writes and removes many files as one change (one commit on GitHub).
+  // Writes create or replace; removing a missing file is not an error.
+  batch(changes: FileChange[], message: string): Promise<void>;
+}
+
+export const CONTENT_STORES = ['github', 'd1', 'memory'] as const;
+export type ContentStoreKind = (typeof CONTENT_STORES)[number];
+
+const PAGE_SIZE = 30;
+
+// --- GitHub (Contents API, one commit per write) ---
+export const createGitHubStore = (env: Env): ContentStore => ({
+  get: (path, revision) => getFileContent(env, path, revision),
+
+  create: async (path, content, message) => {
+    await createGitHubFile(env, path, content, message);
+  },
+
+  update: async (path, content, message) => {
+    const sha = await getFileSha(env, path);
+    if (!sha) return false;
+    await updateGitHubFile(env, path, content, message, sha);
+    return true;
+  },
+
+  delete: async (path, message) => {
+    const sha = await getFileSha(env, path);
+    if (!sha) return false;
+    await deleteGitHubFile(env, path, sha, message);
+    return true;
+  },
+
+  history: (path, page = 1) => listFileCommits(env, path, page, PAGE_SIZE),
+
+  list: (dir) => listGitHubFiles(env, dir),
+
+  batch: async (changes, message) => {
+    await commitGitHubChanges(env, changes, message);
+  },
+});
+
+// --- D1 (content_files + content_revisions tables) ---
+export const createD1Store = (env: Env): ContentStore => {
+  const db = env.bodhak;
+  const addRevision = (path: string, content: string | null, message: string) =>
+    db
+      .prepare('INSERT INTO content_revisions (path, content, message) VALUES (?, ?, ?)')
+      .bind(path, content, message);
+
+  return {
+    get: async (path, revision) => {
+      const row = revision
+        ? await db
+            .prepare('SELECT content FROM content_revisions WHERE path = ? AND id = ?')
+            .bind(path, revision)
+            .first<{ content: string | null }>()
+        : await db
+            .prepare('SELECT content FROM content_files WHERE path = ?')
+            .bind(path)
+            .first<{ content: string }>();
+      return row?.content ?? null;
+    },
+
+    create: async (path, content, message) => {
+      await db.batch([
+        db.prepare('INSERT INTO content_files (path, content) VALUES (?, ?)').bind(path, content),
+        addRevision(path, content, message),
+      ]);
+    },
+
+    update: async (path, content, message) => {
+      const existing = await db
+        .prepare('SELECT path FROM content_files WHERE path = ?')
+        .bind(path)
+        .first();
+      if (!existing) return false;
+      await db.batch([
+        db
+          .prepare(
+            "UPDATE content_files SET content = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE path = ?"
+          )
+          .bind(content, path),
+        addRevision(path, content, message),
+      ]);
+      return true;
+    },
+
+    delete: async (path, message) => {
+      const existing = await db
+        .prepare('SELECT path FROM content_files WHERE path = ?')
+        .bind(path)
+        .first();
+      if (!existing) return false;
+      await db.batch([
+        db.prepare('DELETE FROM content_files WHERE path = ?').bind(path),
+        addRevision(path, null, message),
+      ]);
+      return true;
+    },
+
+    history: async (path, page = 1) => {
+      const { results } = await db
+        .prepare(
+          `SELECT id, message, created_at FROM content_revisions WHERE path = ?
+           ORDER BY id DESC LIMIT ? OFFSET ?`
+        )
+        .bind(path, PAGE_SIZE, (page - 1) * PAGE_SIZE)
+        .all<{ id: number; message: string; created_at: string }>();
+      return results.map((r) => ({
+        sha: String(r.id),
+        message: r.message,
+        author: null,
+        date: r.created_at,
+      }));
+    },
+
+    list: async (dir) => {
+      const prefix = `${dir}/`;
+      const { results } = await db
+        .prepare('SELECT path FROM content_files WHERE substr(path, 1, ?) = ? ORDER BY path')
+        .bind(prefix.length, prefix)
+        .all<{ path: string }>();
+      return results.map((r) => r.path);
+    },
+
+    batch: async (changes, message) => {
+      if (!changes.length) return;
+      await db.batch(
+        changes.flatMap(({ path, content }) =>
+          content === null
+            ? [
+                db
+                  .prepare(
+                    `INSERT INTO content_revisions (path, content, message)
+                     SELECT ?1, NULL, ?2 WHERE EXISTS (SELECT 1 FROM content_files WHERE path = ?1)`
+                  )
+                  .bind(path, message),
+                db.prepare('DELETE FROM content_files WHERE path = ?').bind(path),
+              ]
+            : [
+                db
+                  .prepare(
+                    `INSERT INTO content_files (path, content) VALUES (?, ?)
+                     ON CONFLICT (path) DO UPDATE SET content = excluded.content,
+                       updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`
+                  )
+                  .bind(path, content),
+                addRevision(path, content, message),
+              ]
+        )
+      );
+    },
+  };
+};
+
+// --- In-memory (per isolate; for tests and local development) ---
+const memoryFiles = new Map<string, string>();
+const memoryRevisions: Array<ArticleRevision & { path: string; content: string | null }> = [];
+
+export const createMemoryStore = (): ContentStore => {
+  const addRevision = (path: string, content: string | null, message: string) => {
+    memoryRevisions.push({
+      sha: String(memoryRevisions.length + 1),
+      path,
+      content,
+      message,
+      author: null,
+      date: new Date().toISOString(),
+    });
+  };
+
+  return {
+    get: async (path, revision) => {
+      if (!revision) return memoryFiles.get(path) ?? null;
+      const found = memoryRevisions.find((r) => r.path === path && r.sha === revision);
+      return found?.content ?? null;
+    },
+
+    create: async (path, content, message) => {
+      if (memoryFiles.has(path)) throw new Error(`File already exists: ${path}`);
+      memoryFiles.set(path, content);
+      addRevision(path, content, message);
+    },
+
+    update: async (path, content, message) => {
+      if (!memoryFiles.has(path)) return false;
+      memoryFiles.set(path, content);
+      addRevision(path, content, message);
+      return true;
+    },
+
+    delete: async (path, message) => {
+      if (!memoryFiles.delete(path)) return false;
+      addRevision(path, null, message);
+      return true;
+    },
+
+    history: async (path, page = 1) =>
+      memoryRevisions
+        .filter((r) => r.path === path)
+        .reverse()
+        .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+        .map(({ sha, message, author, date }) => ({ sha, message, author, date })),
+
+    list: async (dir) => [...memoryFiles.keys()].filter((path) => path.startsWith(`${dir}/`)),
+
+    batch: async (changes, message) => {
+      for (const { path, content } of changes) {
+        if (content !== null) {
+          memoryFiles.set(path, content);
+          addRevision(path, content, message);
+        } else if (memoryFiles.delete(path)) {
+          addRevision(path, null, message);
+        }
+      }
+    },
+  };
+};
+
+// Picks the store from the CONTENT_STORE variable. Defaults to GitHub, which is
+// what every deployment used before the store became configurable.
+export const getContentStore = (env: Env): ContentStore => {
+  const kind = (env.CONTENT_STORE ?? 'github') as ContentStoreKind;
+  switch (kind) {
+    case 'github':
+      return createGitHubStore(env);
+    case 'd1':
+      return createD1Store(env);
+    case 'memory':
+      return createMemoryStore();
+    default:
+      throw new Error(
+        `Unknown CONTENT_STORE "${kind}"; expected one of ${CONTENT_STORES.join(', ')}`
+      );
+  }
+};
@@ -0,0 +1,104 @@
+// src/errors.ts
+import { Context, ErrorHandler, NotFoundHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { ApiErrorBody, ErrorCode, ErrorStatus } from './types';
+
+// Every error response has the same shape (ApiErrorBody): the message in
+// `error`, as before, plus a machine-readable `code` and the request id that
+// is also sent in the X-Request-Id header. Routes answer with errorResponse();
+// anything thrown ends up in onError below.
+
+const DEFAULT_CODES: Record<ErrorStatus, ErrorCode> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'validation_failed',
+  429: 'rate_limited',
+  500: 'internal_error',
+  503: 'unavailable',
+};
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: ErrorStatus,
+    message: string,
+    readonly code: ErrorCode = DEFAULT_CODES[status],
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const errorResponse = (
+  c: Context,
+  status: ErrorStatus,
+  message: string,
+  { code = DEFAULT_CODES[status], details }: { code?: ErrorCode; details?: unknown } = {}
+) => {
+  const body: ApiErrorBody = { error: message, code, requestId: c.get('requestId') ?? null };
+  if (details !== undefined) body.details = details;
+  return c.json(body, status);
+};
+
+// 422 for a request body naming a record that does not exist, e.g. the
+// subjectId of a new topic
+export const invalidReference = (c: Context, what: string) =>
+  errorResponse(c, 422, `${what} does not exist`, { code: 'invalid_reference' });
+
+// The ApiError for an exception. D1 constraint failures are the client's doing
+// (a duplicate or a dangling id) and keep their message; anything else is a
+// 500 whose message starts with `context`.
+export const toApiError = (err: unknown, context = 'Internal server error') => {
+  if (err instanceof ApiError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  if (/UNIQUE constraint failed/i.test(message)) {
+    return new ApiError(409, `Already exists: ${message}`);
+  }
+  if (/FOREIGN KEY constraint failed/i.test(message)) {
+    return new ApiError(422, 'A referenced record does not exist', 'invalid_reference');
+  }
+  return new ApiError(500, `${context}: ${message}`);
+};
+
+// For the catch blocks of routes that add context to unexpected failures
+export const exceptionResponse = (c: Context, err: unknown, context: string) => {
+  const error = toApiError(err, context);
+  if (error.status === 500) {
+    // eslint-disable-next-line no-console
+    console.error(context, err);
+  }
+  return errorResponse(c, error.status, error.message, error);
+};
+
+// The part of a zod issue the response reports
+type ZodIssue = { path: PropertyKey[]; message: string };
+
+// Third argument of every zValidator: answers 422 with the zod issues instead
+// of the validator's raw result
+export const validationHook = (
+  result:
+    | { success: true; target: string }
+    | { success: false; target: string; error: { issues: readonly ZodIssue[] } },
+  c: Context
+) => {
+  if (result.success) return;
+  const details = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+  return errorResponse(c, 422, `Invalid request ${result.target}`, { details });
+};
+
+export const onError: ErrorHandler = (err, c) => {
+  // Thrown by Hono itself, e.g. for a malformed JSON body
+  if (err instanceof HTTPException && err.status in DEFAULT_CODES) {
+    return errorResponse(c, err.status as ErrorStatus, err.message);
+  }
+  return exceptionResponse(c, err, 'Internal server error');
+};
+
+export const notFound: NotFoundHandler = (c) =>
+  errorResponse(c, 404, `No route for ${c.req.method} ${c.req.path}`);
@@ -1,5 +1,9 @@
-const GH_API = (env: Env) =>
-  `https://api.github.com/repos/${env.GITHUB_REPO_OWNER}/${env.GITHUB_REPO_NAME}/contents`;
+import { ArticleRevision, FileChange } from './types';
+
+const GH_REPO = (env: Env) =>
+  `https://api.github.com/repos/${env.GITHUB_REPO_OWNER}/${env.GITHUB_REPO_NAME}`;
+
+const GH_API = (env: Env) => `${GH_REPO(env)}/contents`;
 
 const fetchOptions = (env: Env, method: string, body?: any) => ({
   method,
@@ -13,6 +17,17 @@ const fetchOptions = (env: Env, method: string, body?: any) => ({
   body: body ? JSON.stringify(body) : undefined,
 });
 
+// The Contents API carries files as base64 of their UTF-8 bytes. btoa() and
+// atob() only handle Latin-1, so the text goes through the bytes first.
+const encodeContent = (content: string) =>
+  btoa(Array.from(new TextEncoder().encode(content), (byte) => String.fromCharCode(byte)).join(''));
+
+// Decodes the base64 `content` field of the Contents API (wrapped at 60 chars)
+const decodeContent = (encoded: string) => {
+  const binary = atob(encoded.replace(/\n/g, ''));
+  return new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+};
+
 // Creates a file in the GitHub repository
 export const createGitHubFile = async (
   env: Env,
@@ -26,7 +41,7 @@ export const createGitHubFile = async (
     url,
     fetchOptions(env, 'PUT', {
       message,
-      content: btoa(content), // Base64 encode the content
+      content: encodeContent(content),
     })
   );
 
@@ -73,7 +88,7 @@ export const updateGitHubFile = async (
     url,
     fetchOptions(env, 'PUT', {
       message,
-      content: btoa(content),
+      content: encodeContent(content),
       sha, // SHA is required for updates
     })
   );
@@ -111,3 +126,168 @@ export const deleteGitHubFile = async (
     );
   }
 };
+
+// Lists the paths of the files directly under a directory. Returns an empty list
+// when the directory does not exist. The Contents API caps a listing at 1,000
+// entries.
+export const listGitHubFiles = async (env: Env, dir: string) => {
+  const response = await fetch(`${GH_API(env)}/${dir}`, fetchOptions(env, 'GET'));
+
+  if (!response.ok) {
+    if (response.status === 404) return [];
+    throw new Error(`Failed to list files on GitHub: ${response.status}`);
+  }
+
+  const data: any[] = await response.json();
+  return data.filter((entry) => entry.type === 'file').map((entry) => entry.path as string);
+};
+
+// Lists the commits that touched a file, newest first
+export const listFileCommits = async (env: Env, filePath: string, page = 1, perPage = 30) => {
+  const params = new URLSearchParams({
+    path: filePath,
+    page: String(page),
+    per_page: String(perPage),
+  });
+  const response = await fetch(`${GH_REPO(env)}/commits?${params}`, fetchOptions(env, 'GET'));
+
+  if (!response.ok) {
+    throw new Error(`Failed to list commits from GitHub: ${response.status}`);
+  }
+
+  const data: any[] = await response.json();
+  return data.map((commit): ArticleRevision => ({
+    sha: commit.sha,
+    message: commit.commit?.message ?? '',
+    author: commit.commit?.author?.name ?? null,
+    date: commit.commit?.author?.date ?? null,
+  }));
+};
+
+// Gets the content of a file at a given commit/branch. Returns null when the
+// file does not exist at that ref.
+export const getFileContent = async (env: Env, filePath: string, ref?: string) => {
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+  const response = await fetch(`${GH_API(env)}/${filePath}${query}`, fetchOptions(env, 'GET'));
+
+  if (!response.ok) {
+    if (response.status === 404) return null;
+    throw new Error(`Failed to fetch file content from GitHub: ${response.status}`);
+  }
+
+  const data: any = await response.json();
+  return decodeContent(data.content ?? '');
+};
+
+// The parts of GET /repos/{owner}/{repo}/commits/{sha} that are used here
+interface CommitResponse {
+  files?: { filename: string; status: string; previous_filename?: string }[];
+}
+
+// Gets the files changed by a commit, including rename information that push
+// event payloads leave out
+export const getCommitFiles = async (env: Env, sha: string) => {
+  const response = await fetch(`${GH_REPO(env)}/commits/${sha}`, fetchOptions(env, 'GET'));
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch commit from GitHub: ${response.status}`);
+  }
+
+  const data: CommitResponse = await response.json();
+  return (data.files ?? []).map((file) => ({
+    filename: file.filename,
+    status: file.status,
+    previousFilename: file.previous_filename ?? null,
+  }));
+};
+
+// --- Git Data API (several files in one commit) ---
+
+const gitRequest = async (env: Env, method: string, path: string, body?: any) => {
+  const response = await fetch(`${GH_REPO(env)}/git/${path}`, fetchOptions(env, method, body));
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    const error = new Error(
+      `GitHub ${method} git/${path} failed: ${response.status} - ${JSON.stringify(errorBody)}`
+    );
+    (error as Error & { status?: number }).status = response.status;
+    throw error;
+  }
+  return response.json() as Promise<any>;
+};
+
+// The branch writes go to: GITHUB_REPO_BRANCH, else the repository's default
+// branch (which is where the Contents API writes when no branch is given)
+const getWriteBranch = async (env: Env) => {
+  if (env.GITHUB_REPO_BRANCH) return env.GITHUB_REPO_BRANCH;
+  const response = await fetch(GH_REPO(env), fetchOptions(env, 'GET'));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch repository from GitHub: ${response.status}`);
+  }
+  const data: any = await response.json();
+  return data.default_branch as string;
+};
+
+// The parts of GET /repos/{owner}/{repo}/git/trees/{sha} that are used here
+interface TreeResponse {
+  tree: { path: string }[];
+}
+
+// Moving the branch fails with 422 when someone else pushed in between
+const MAX_COMMIT_ATTEMPTS = 3;
+
+// Writes many files (adds, updates and removals) as a single commit on the
+// write branch. Unlike the Contents API this costs a fixed handful of requests
+// whatever the number of files. Removing a file that does not exist is a no-op.
+// Returns the new commit sha, or null when there was nothing to change.
+export const commitGitHubChanges = async (env: Env, changes: FileChange[], message: string) => {
+  // A tree may list each path only once; the last change to a path wins
+  changes = [...new Map(changes.map((change) => [change.path, change])).values()];
+  if (!changes.length) return null;
+  const branch = await getWriteBranch(env);
+
+  for (let attempt = 1; ; attempt++) {
+    const ref = await gitRequest(env, 'GET', `ref/heads/${branch}`);
+    const parent = await gitRequest(env, 'GET', `commits/${ref.object.sha}`);
+
+    // The tree API rejects removals of paths that are not in the base tree
+    const removals = changes.filter((change) => change.content === null);
+    let existing = new Set<string>();
+    if (removals.length) {
+      const baseTree: TreeResponse = await gitRequest(
+        env,
+        'GET',
+        `trees/${parent.tree.sha}?recursive=1`
+      );
+      existing = new Set(baseTree.tree.map((entry) => entry.path));
+    }
+
+    const entries = changes
+      .filter((change) => change.content !== null || existing.has(change.path))
+      .map((change) => ({
+        path: change.path,
+        mode: '100644',
+        type: 'blob',
+        ...(change.content === null ? { sha: null } : { content: change.content }),
+      }));
+    if (!entries.length) return null;
+
+    const tree = await gitRequest(env, 'POST', 'trees', {
+      base_tree: parent.tree.sha,
+      tree: entries,
+    });
+    const commit = await gitRequest(env, 'POST', 'commits', {
+      message,
+      tree: tree.sha,
+      parents: [parent.sha],
+    });
+
+    try {
+      await gitRequest(env, 'PATCH', `refs/heads/${branch}`, { sha: commit.sha, force: false });
+      return commit.sha as string;
+    } catch (err) {
+      const status = (err as Error & { status?: number }).status;
+      if (status !== 422 || attempt >= MAX_COMMIT_ATTEMPTS) throw err;
+    }
+  }
+};
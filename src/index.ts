@@ -1,14 +1,115 @@
 // src/index.ts
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { jwtAuth, loginHandler, logoutHandler } from './auth';
-import { createGitHubFile, deleteGitHubFile, getFileSha, updateGitHubFile } from './github';
-import { Subject, Topic, Article } from './types';
+import { requestId } from 'hono/request-id';
+import { parseArticle, renderArticle, serializeArticle } from './articleFormat';
+import { auditLog, listAudit } from './audit';
+import {
+  errorResponse,
+  exceptionResponse,
+  invalidReference,
+  notFound,
+  onError,
+  validationHook,
+} from './errors';
+import { jwtAuth, loginHandler, logoutAllHandler, logoutHandler, refreshHandler } from './auth';
+import { exportCurriculum, importCurriculum } from './bundle';
+import {
+  buildContentResponse,
+  cacheContent,
+  etagMatches,
+  getCachedContent,
+  purgeArticleContent,
+} from './contentCache';
+import { getContentStore } from './contentStore';
+import {
+  enqueue,
+  listOutbox,
+  processOutboxEntry,
+  processPendingOutbox,
+  requeueOutboxEntry,
+} from './outbox';
+import {
+  allOf,
+  authorize,
+  checkRole,
+  subjectFromBody,
+  subjectFromParam,
+  subjectOfArticleBodyId,
+  subjectOfArticleParam,
+  subjectOfTopicBody,
+  subjectOfTopicBodyId,
+  subjectOfTopicParam,
+  subjectOfTopicQuery,
+} from './permissions';
+import { docsPage, getOpenApiDocument } from './openapi';
+import { listPage } from './pagination';
+import { calculateNewRank, moveItem, rebalanceRanks, reorderItem, setOrder } from './ranking';
+import { reconcileArticles, repairArticles } from './reconcile';
+import { rebuildSearchIndex, searchContent } from './search';
+import {
+  ArticleListQuerySchema,
+  ArticleMoveSchema,
+  ArticleOrderSchema,
+  ArticleSchema,
+  ArticleStatusSchema,
+  AuditQuerySchema,
+  BundleSchema,
+  ContentQuerySchema,
+  ImportQuerySchema,
+  LoginSchema,
+  OrderSchema,
+  OutboxQuerySchema,
+  pageQuerySchema,
+  PasswordSchema,
+  PUBLIC_ARTICLE_FIELDS,
+  ReorderSchema,
+  RepairSchema,
+  RevisionListQuerySchema,
+  RoleSchema,
+  SearchQuerySchema,
+  SUBJECT_FIELDS,
+  SubjectSchema,
+  TOPIC_FIELDS,
+  TopicMoveSchema,
+  TopicOrderSchema,
+  TopicSchema,
+  TrashPurgeQuerySchema,
+  UserSchema,
+} from './schemas';
+import { listActiveSessions, revokeSession, revokeUserSessions } from './sessions';
+import { fillMissingSlugs, renameSlug, resolveSlugPath, uniqueSlug } from './slugs';
+import {
+  createUser,
+  listSubjectGrants,
+  listUsers,
+  removeSubjectGrant,
+  resetUserPassword,
+  setSubjectGrant,
+  setUserDisabled,
+  setUserRole,
+} from './users';
+import {
+  isLive,
+  listTrash,
+  moveToTrash,
+  purgeTrash,
+  restoreFromTrash,
+  TRASH_RETENTION_DAYS,
+} from './trash';
+import { buildTree, buildTreeResponse, cacheTree, getCachedTree, purgeTree } from './tree';
+import { applyPushEvent, PushEvent, verifySignature } from './webhooks';
+import { AppEnv, Subject, Topic, Article, ArticleStatus } from './types';
 import { LexoRank } from '@dalet-oss/lexorank';
-import { z } from 'zod';
 import { zValidator } from '@hono/zod-validator';
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppEnv>();
+
+// Reuses a valid incoming X-Request-Id, otherwise generates one. Registered
+// first so that every response, errors included, carries it.
+app.use('*', requestId());
+app.onError(onError);
+app.notFound(notFound);
 
 // Enable CORS for your front end
 app.use(
@@ -17,6 +118,7 @@ app.use(
     origin: '*', // ⚠️ CHANGE THIS TO YOUR FRONTEND URL IN PRODUCTION!
     allowHeaders: ['Content-Type', 'Authorization'],
     allowMethods: ['POST', 'GET', 'PUT', 'DELETE'],
+    exposeHeaders: ['X-Request-Id'],
     credentials: true,
   })
 );
@@ -44,7 +146,7 @@ const rateLimitMiddleware = () => {
       const result = await c.env.BODHAK_RATE_LIMITER.limit({ key });
       const success = result?.success;
       if (!success) {
-        return c.json({ error: 'Rate limit exceeded' }, 429);
+        return errorResponse(c, 429, 'Rate limit exceeded');
       }
 
       return next();
@@ -60,337 +162,1263 @@ const rateLimitMiddleware = () => {
 // Apply rate limiting to API routes (single global rule via BODHAK_RATE_LIMITER)
 app.use('/api/*', rateLimitMiddleware());
 
-// --- Schemas for Validation ---
-const SubjectSchema = z.object({ title: z.string().min(1) });
-const TopicSchema = z.object({ title: z.string().min(1), subjectId: z.number().int() });
-const ArticleSchema = z.object({
-  title: z.string().min(1),
-  topicId: z.number().int(),
-  content: z.string().min(1),
-});
-const ReorderSchema = z.object({
-  id: z.number().int(),
-  beforeRank: z.string().optional(),
-  afterRank: z.string().optional(),
-});
-
-// Helper function to calculate new LexoRank
-const calculateNewRank = (
-  beforeRank: string | undefined,
-  afterRank: string | undefined
-): LexoRank | undefined => {
-  const rankBefore = beforeRank ? LexoRank.parse(beforeRank) : null;
-  const rankAfter = afterRank ? LexoRank.parse(afterRank) : null;
-
-  if (rankBefore && rankAfter) {
-    return rankBefore.between(rankAfter);
-  } else if (rankBefore) {
-    return rankBefore.genPrev();
-  } else if (rankAfter) {
-    return rankAfter.genNext();
-  }
-  return undefined;
+// Allowed article status changes. Anything that publishes, archives or
+// unpublishes an article additionally needs the editor role (see the status route).
+const STATUS_TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  draft: ['in_review', 'published', 'archived'],
+  in_review: ['draft', 'published', 'archived'],
+  published: ['draft', 'archived'],
+  archived: ['draft', 'published'],
 };
 
 // ----------------------------------------
 // --- Public API Routes (Read-Only) ---
 // ----------------------------------------
 
-// GET /api/subjects
-app.get('/api/subjects', async (c) => {
-  const { results } = await c.env.bodhak
-    .prepare('SELECT id, title, rank FROM subjects ORDER BY rank ASC')
-    .all<Subject>();
-  return c.json(results);
-});
+// GET /api/s/:subjectSlug[/:topicSlug[/:articleSlug]] (published articles
+// only). Old slugs and moved rows answer with a 301 to the current path.
+const bySlug = async (c: Context<AppEnv>) => {
+  const { subjectSlug, topicSlug, articleSlug } = c.req.param();
+  try {
+    const found = await resolveSlugPath(
+      c.env,
+      [subjectSlug, topicSlug, articleSlug].filter(Boolean)
+    );
+    if (!found) return errorResponse(c, 404, 'Not found.');
+    if (found.redirected) return c.redirect(found.path, 301);
 
-// GET /api/subjects/:subjectId/topics
-app.get('/api/subjects/:subjectId/topics', async (c) => {
-  const { subjectId } = c.req.param();
-  const { results } = await c.env.bodhak
-    .prepare(
-      'SELECT id, subject_id, title, rank FROM topics WHERE subject_id = ? ORDER BY rank ASC'
-    )
-    .bind(subjectId)
-    .all<Topic>();
-  return c.json(results);
-});
+    const { subject, topic, article } = found;
+    return c.json({
+      subject,
+      ...(topic && { topic }),
+      ...(article && {
+        article: { ...article, content_url: `/api/articles/${article.id}/content` },
+      }),
+    });
+  } catch (err) {
+    return exceptionResponse(c, err, 'Failed to resolve slug');
+  }
+};
 
-// GET /api/topics/:topicId/articles
-app.get('/api/topics/:topicId/articles', async (c) => {
-  const { topicId } = c.req.param();
-  const { results } = await c.env.bodhak
-    .prepare(
-      'SELECT id, topic_id, title, file_path, rank FROM articles WHERE topic_id = ? ORDER BY rank ASC'
-    )
-    .bind(topicId)
-    .all<Article>();
-  // If GitHub repo owner/name are configured in environment, convert stored file_path
-  // into a raw GitHub URL so clients can fetch the article content directly.
-  const owner = c.env.GITHUB_REPO_OWNER || '';
-  const repo = c.env.GITHUB_REPO_NAME || '';
-  const branch = c.env.GITHUB_REPO_BRANCH ?? 'master';
-
-  const mapped = results.map((r) => {
-    if (owner && repo && r.file_path) {
-      // Ensure no leading slash on file_path
-      const fp = r.file_path.replace(/^\/+/, '');
-      return {
-        ...r,
-        file_path: `https://raw.githubusercontent.com/${owner}/${repo}/refs/heads/${branch}/${fp}`,
-      };
-    }
-    return r;
-  });
+// The list routes return `{ data, next }`; pass `next` back as `?cursor=` for
+// the following page. `next` is null on the last page.
 
-  return c.json(mapped);
-});
+// Routes are registered on chained sub-apps, which are mounted at the end of
+// this file, so that their types add up to AppType (see src/client.ts).
+const publicRoutes = new Hono<AppEnv>()
+  // GET /api/subjects
+  .get(
+    '/api/subjects',
+    zValidator('query', pageQuerySchema(SUBJECT_FIELDS), validationHook),
+    async (c) => {
+      const page = await listPage<Subject>(c.env.bodhak, {
+        table: 'subjects',
+        where: ['deleted_at IS NULL'],
+        columns: SUBJECT_FIELDS,
+        query: c.req.valid('query'),
+      });
+      return c.json(page);
+    }
+  )
 
-// Lightweight health check endpoint
-// By default this does NOT touch the database. To enable a DB connectivity
-// check set the environment variable `HEALTH_CHECK_DB` to the string 'true'
-// (set this as a secret/var in Cloudflare or in your local env explicitly).
-app.get('/health', async (c) => {
-  const payload: Record<string, unknown> = {
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-  };
+  // GET /api/subjects/:subjectId/topics
+  .get(
+    '/api/subjects/:subjectId/topics',
+    zValidator('query', pageQuerySchema(TOPIC_FIELDS), validationHook),
+    async (c) => {
+      const { subjectId } = c.req.param();
+      const page = await listPage<Topic>(c.env.bodhak, {
+        table: 'topics',
+        where: ['subject_id = ?', 'deleted_at IS NULL'],
+        params: [subjectId],
+        columns: TOPIC_FIELDS,
+        query: c.req.valid('query'),
+      });
+      return c.json(page);
+    }
+  )
+
+  // GET /api/topics/:topicId/articles (published articles only)
+  .get(
+    '/api/topics/:topicId/articles',
+    zValidator('query', pageQuerySchema(PUBLIC_ARTICLE_FIELDS), validationHook),
+    async (c) => {
+      const { topicId } = c.req.param();
+      const page = await listPage<Article & { content_url: string }>(c.env.bodhak, {
+        table: 'articles',
+        where: ['topic_id = ?', "status = 'published'", 'deleted_at IS NULL'],
+        params: [topicId],
+        columns: PUBLIC_ARTICLE_FIELDS,
+        // Content is served by the route below rather than straight from the store
+        computed: { content_url: "'/api/articles/' || id || '/content'" },
+        query: c.req.valid('query'),
+      });
+      return c.json(page);
+    }
+  )
+
+  // GET /api/articles/:id/content?format=json|html|markdown (published articles
+  // only). The stored JSON is served from the edge cache when possible and
+  // rendered per request; supports If-None-Match.
+  .get(
+    '/api/articles/:id/content',
+    zValidator('query', ContentQuerySchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { format } = c.req.valid('query');
+
+      try {
+        let response = await getCachedContent(c.req.url, id);
+        if (!response) {
+          const article = await c.env.bodhak
+            .prepare(
+              `SELECT file_path FROM articles
+           WHERE id = ? AND status = 'published' AND deleted_at IS NULL`
+            )
+            .bind(id)
+            .first<{ file_path: string }>();
+          if (!article) return errorResponse(c, 404, 'Article not found.');
+
+          const content = await getContentStore(c.env).get(article.file_path);
+          if (content === null) return errorResponse(c, 404, 'Article content not found.');
+
+          response = await buildContentResponse(content);
+          c.executionCtx.waitUntil(cacheContent(c.req.url, id, response.clone()));
+        }
+
+        // Each representation gets its own ETag, derived from the stored content's
+        const storedEtag = response.headers.get('ETag') ?? '';
+        const etag = format === 'json' ? storedEtag : storedEtag.replace(/"$/, `-${format}"`);
+        const cacheControl = response.headers.get('Cache-Control') ?? '';
+        if (etagMatches(c.req.header('If-None-Match'), etag)) {
+          return c.body(null, 304, { ETag: etag, 'Cache-Control': cacheControl });
+        }
+        if (format === 'json') return response;
+
+        const rendered = renderArticle(await response.text(), format);
+        return c.body(rendered, 200, {
+          'Content-Type':
+            format === 'html' ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8',
+          ETag: etag,
+          'Cache-Control': cacheControl,
+        });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to fetch article content');
+      }
+    }
+  )
+
+  // GET /api/tree: every subject with its topics and their published articles,
+  // for navigation. Cached until the next admin write; supports If-None-Match.
+  .get('/api/tree', async (c) => {
+    try {
+      let response = await getCachedTree(c.req.url);
+      if (!response) {
+        response = await buildTreeResponse(await buildTree(c.env));
+        c.executionCtx.waitUntil(cacheTree(c.req.url, response.clone()));
+      }
+
+      const etag = response.headers.get('ETag') ?? '';
+      if (etagMatches(c.req.header('If-None-Match'), etag)) {
+        return c.body(null, 304, {
+          ETag: etag,
+          'Cache-Control': response.headers.get('Cache-Control') ?? '',
+        });
+      }
+      return response;
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to build tree');
+    }
+  })
 
-  if (String(c.env.HEALTH_CHECK_DB) === 'true') {
+  // GET /api/search?q= (subjects, topics and published articles)
+  .get('/api/search', zValidator('query', SearchQuerySchema, validationHook), async (c) => {
+    const { q, limit } = c.req.valid('query');
     try {
-      // Minimal DB check - SELECT 1
-      await c.env.bodhak.prepare('SELECT 1').first();
-      payload.db = 'ok';
+      return c.json({ query: q, results: await searchContent(c.env, q, limit) });
     } catch (err) {
-      payload.db = 'error';
-      payload.dbError = err instanceof Error ? err.message : String(err);
+      return exceptionResponse(c, err, 'Search failed');
     }
-  } else {
-    payload.db = 'skipped';
+  })
+
+  .get('/api/s/:subjectSlug', bySlug)
+  .get('/api/s/:subjectSlug/:topicSlug', bySlug)
+  .get('/api/s/:subjectSlug/:topicSlug/:articleSlug', bySlug)
+
+  // Lightweight health check endpoint
+  // By default this does NOT touch the database. To enable a DB connectivity
+  // check set the environment variable `HEALTH_CHECK_DB` to the string 'true'
+  // (set this as a secret/var in Cloudflare or in your local env explicitly).
+  .get('/health', async (c) => {
+    const payload: Record<string, unknown> = {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+    };
+
+    if (String(c.env.HEALTH_CHECK_DB) === 'true') {
+      try {
+        // Minimal DB check - SELECT 1
+        await c.env.bodhak.prepare('SELECT 1').first();
+        payload.db = 'ok';
+      } catch (err) {
+        payload.db = 'error';
+        payload.dbError = err instanceof Error ? err.message : String(err);
+      }
+    } else {
+      payload.db = 'skipped';
+    }
+
+    return c.json(payload);
+  })
+
+  // The OpenAPI document of this API (see src/openapi.ts) and a UI to browse it
+  .get('/openapi.json', (c) => c.json(getOpenApiDocument()))
+  .get('/docs', (c) => c.html(docsPage('/openapi.json')));
+
+// ----------------------------------------
+// --- Webhooks ---
+// ----------------------------------------
+
+// Push events from the content repository, so edits made directly in the repo
+// reach the articles table. Authenticated by the HMAC signature, not a session.
+const webhookRoutes = new Hono<AppEnv>().post('/webhooks/github', async (c) => {
+  const secret = c.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) return errorResponse(c, 503, 'Webhook secret not configured');
+
+  const body = await c.req.text();
+  if (!(await verifySignature(secret, body, c.req.header('x-hub-signature-256')))) {
+    return errorResponse(c, 401, 'Invalid signature');
+  }
+
+  const event = c.req.header('x-github-event');
+  if (event === 'ping') return c.json({ message: 'pong' });
+  if (event !== 'push') return c.json({ message: `Ignored ${event} event` }, 202);
+
+  let payload: PushEvent;
+  try {
+    // Webhooks can be configured to send JSON or a form-encoded `payload` field
+    const isForm = c.req.header('content-type')?.includes('application/x-www-form-urlencoded');
+    payload = JSON.parse(isForm ? (new URLSearchParams(body).get('payload') ?? '') : body);
+  } catch {
+    return errorResponse(c, 400, 'Malformed payload');
   }
 
-  return c.json(payload);
+  const branch = c.env.GITHUB_REPO_BRANCH ?? payload.repository?.default_branch;
+  if (payload.ref !== `refs/heads/${branch}`) {
+    return c.json({ message: `Ignored push to ${payload.ref}` }, 202);
+  }
+
+  try {
+    const result = await applyPushEvent(c.env, payload, c.req.url);
+    await fillMissingSlugs(c.env);
+    await purgeTree(c.req.url);
+    return c.json({ message: 'Push applied', ...result });
+  } catch (err) {
+    return exceptionResponse(c, err, 'Failed to apply push');
+  }
 });
 
 // ----------------------------------------
 // --- Admin API Routes (Protected) ---
 // ----------------------------------------
-app.post('/api/admin/login', loginHandler);
-app.post('/api/admin/logout', logoutHandler);
 
-// Apply JWT authentication middleware to all admin routes
-app.use('/api/admin/*', async (c, next) => {
-  return jwtAuth(c.env.JWT_SECRET)(c, next);
-});
+// The only admin routes that do not need a session
+const authRoutes = new Hono<AppEnv>()
+  .post('/api/admin/login', zValidator('json', LoginSchema, validationHook), loginHandler)
+  .post('/api/admin/refresh', refreshHandler)
+  .post('/api/admin/logout', logoutHandler);
+
+// --- Session Routes (always scoped to the caller) ---
+const accountRoutes = new Hono<AppEnv>()
+  .get('/api/admin/sessions', async (c) => {
+    const { sub, sid } = c.get('jwtPayload');
+    const sessions = await listActiveSessions(c.env, sub);
+    return c.json(sessions.map((s) => ({ ...s, current: s.id === sid })));
+  })
+
+  .delete('/api/admin/sessions/:id', async (c) => {
+    const { id } = c.req.param();
+    if (!(await revokeSession(c.env, id, c.get('jwtPayload').sub))) {
+      return errorResponse(c, 404, 'Session not found');
+    }
+    return c.json({ message: 'Session revoked' });
+  })
+
+  .post('/api/admin/logout-all', logoutAllHandler)
+
+  // --- User Admin Routes ---
+  .get('/api/admin/users', authorize('owner'), async (c) => {
+    return c.json(await listUsers(c.env));
+  })
+
+  .post(
+    '/api/admin/users',
+    authorize('owner'),
+    zValidator('json', UserSchema, validationHook),
+    async (c) => {
+      const { username, password, role } = c.req.valid('json');
+
+      const existing = await c.env.bodhak
+        .prepare('SELECT id FROM users WHERE username = ?')
+        .bind(username)
+        .first();
+      if (existing) return errorResponse(c, 409, 'Username already taken');
+
+      const user = await createUser(c.env, username, password, role);
+      return c.json({ message: 'User created', user }, 201);
+    }
+  )
+
+  .post('/api/admin/users/:id/disable', authorize('owner'), async (c) => {
+    const { id } = c.req.param();
+    if (id === c.get('jwtPayload').sub) {
+      return errorResponse(c, 400, 'You cannot disable your own account');
+    }
+    if (!(await setUserDisabled(c.env, id, true))) return errorResponse(c, 404, 'User not found');
+    await revokeUserSessions(c.env, id);
+    return c.json({ message: 'User disabled' });
+  })
+
+  .post('/api/admin/users/:id/enable', authorize('owner'), async (c) => {
+    const { id } = c.req.param();
+    if (!(await setUserDisabled(c.env, id, false))) return errorResponse(c, 404, 'User not found');
+    return c.json({ message: 'User enabled' });
+  })
+
+  .put(
+    '/api/admin/users/:id/password',
+    authorize('owner'),
+    zValidator('json', PasswordSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { password } = c.req.valid('json');
+      if (!(await resetUserPassword(c.env, id, password))) {
+        return errorResponse(c, 404, 'User not found');
+      }
+      await revokeUserSessions(c.env, id);
+      return c.json({ message: 'Password reset' });
+    }
+  )
+
+  .put(
+    '/api/admin/users/:id/role',
+    authorize('owner'),
+    zValidator('json', RoleSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { role } = c.req.valid('json');
+      if (id === c.get('jwtPayload').sub && role !== 'owner') {
+        return errorResponse(c, 400, 'You cannot demote your own account');
+      }
+      if (!(await setUserRole(c.env, id, role))) return errorResponse(c, 404, 'User not found');
+      return c.json({ message: 'Role updated' });
+    }
+  )
+
+  // Subject-scoped grants. The effective role on a subject is the higher of the
+  // user's global role and the grant for that subject.
+  .get('/api/admin/users/:id/grants', authorize('owner'), async (c) => {
+    const { id } = c.req.param();
+    return c.json(await listSubjectGrants(c.env, id));
+  })
+
+  .put(
+    '/api/admin/users/:id/grants/:subjectId',
+    authorize('owner'),
+    zValidator('json', RoleSchema, validationHook),
+    async (c) => {
+      const { id, subjectId } = c.req.param();
+      const { role } = c.req.valid('json');
+
+      const user = await c.env.bodhak.prepare('SELECT id FROM users WHERE id = ?').bind(id).first();
+      if (!user) return errorResponse(c, 404, 'User not found');
+      const subject = await c.env.bodhak
+        .prepare('SELECT id FROM subjects WHERE id = ?')
+        .bind(subjectId)
+        .first();
+      if (!subject) return errorResponse(c, 404, 'Subject not found');
+
+      await setSubjectGrant(c.env, id, subjectId, role);
+      return c.json({ message: 'Grant saved' });
+    }
+  )
+
+  .delete('/api/admin/users/:id/grants/:subjectId', authorize('owner'), async (c) => {
+    const { id, subjectId } = c.req.param();
+    if (!(await removeSubjectGrant(c.env, id, subjectId))) {
+      return errorResponse(c, 404, 'Grant not found');
+    }
+    return c.json({ message: 'Grant removed' });
+  });
 
 // --- Subject Admin Routes ---
-app.post('/api/admin/subjects', zValidator('json', SubjectSchema), async (c) => {
-  const { title } = c.req.valid('json');
+const subjectRoutes = new Hono<AppEnv>()
+  .post(
+    '/api/admin/subjects',
+    authorize('owner'),
+    zValidator('json', SubjectSchema, validationHook),
+    async (c) => {
+      const { title } = c.req.valid('json');
 
-  const { results } = await c.env.bodhak
-    .prepare('SELECT rank FROM subjects ORDER BY rank DESC LIMIT 1')
-    .all();
-  const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
-  const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
+      const { results } = await c.env.bodhak
+        .prepare('SELECT rank FROM subjects ORDER BY rank DESC LIMIT 1')
+        .all();
+      const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
+      const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
+      const slug = await uniqueSlug(c.env, 'subject', null, title);
 
-  await c.env.bodhak
-    .prepare('INSERT INTO subjects (title, rank) VALUES (?, ?)')
-    .bind(title, newRank.toString())
-    .run();
+      const { meta } = await c.env.bodhak
+        .prepare('INSERT INTO subjects (title, rank, slug) VALUES (?, ?, ?)')
+        .bind(title, newRank.toString(), slug)
+        .run();
 
-  return c.json({ message: 'Subject created', rank: newRank.toString() }, 201);
-});
+      return c.json(
+        { message: 'Subject created', id: meta.last_row_id, rank: newRank.toString(), slug },
+        201
+      );
+    }
+  )
 
-app.put('/api/admin/subjects/:id', zValidator('json', SubjectSchema), async (c) => {
-  const { id } = c.req.param();
-  const { title } = c.req.valid('json');
-  await c.env.bodhak.prepare('UPDATE subjects SET title = ? WHERE id = ?').bind(title, id).run();
-  return c.json({ message: 'Subject updated' });
-});
+  // Replaces the whole order at once, e.g. after a drag and drop. Registered
+  // before PUT /api/admin/subjects/:id, which would otherwise match it.
+  .put(
+    '/api/admin/subjects/order',
+    authorize('owner'),
+    zValidator('json', OrderSchema, validationHook),
+    async (c) => {
+      const result = await setOrder(c.env, 'subject', null, c.req.valid('json').ids);
+      if (result.error !== undefined) return errorResponse(c, 422, result.error);
+      return c.json({ message: 'Subjects ordered', ranks: result.ranks });
+    }
+  )
 
-app.post('/api/admin/subjects/reorder', zValidator('json', ReorderSchema), async (c) => {
-  const { id, beforeRank, afterRank } = c.req.valid('json');
-  const newRank = calculateNewRank(beforeRank, afterRank);
+  .put(
+    '/api/admin/subjects/:id',
+    authorize('editor', subjectFromParam),
+    zValidator('json', SubjectSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { title } = c.req.valid('json');
 
-  if (!newRank) return c.json({ error: 'Invalid reorder request' }, 400);
+      const subject = await c.env.bodhak
+        .prepare('SELECT id, title, slug FROM subjects WHERE id = ?')
+        .bind(id)
+        .first<{ id: number; title: string; slug: string | null }>();
+      if (!subject) return errorResponse(c, 404, 'Subject not found.');
 
-  await c.env.bodhak
-    .prepare('UPDATE subjects SET rank = ? WHERE id = ?')
-    .bind(newRank.toString(), id)
-    .run();
-  return c.json({ message: 'Subject reordered', newRank: newRank.toString() });
-});
+      const { slug, statements } = await renameSlug(
+        c.env,
+        'subject',
+        { ...subject, scopeId: null },
+        title
+      );
+      await c.env.bodhak.batch([
+        c.env.bodhak
+          .prepare('UPDATE subjects SET title = ?, slug = ? WHERE id = ?')
+          .bind(title, slug, id),
+        ...statements,
+      ]);
+      return c.json({ message: 'Subject updated', slug });
+    }
+  )
 
-app.delete('/api/admin/subjects/:id', async (c) => {
-  const { id } = c.req.param();
-  await c.env.bodhak.prepare('DELETE FROM subjects WHERE id = ?').bind(id).run();
-  return c.json({ message: 'Subject deleted' });
-});
+  .post(
+    '/api/admin/subjects/reorder',
+    authorize('owner'),
+    zValidator('json', ReorderSchema, validationHook),
+    async (c) => {
+      const { id, afterId, beforeId } = c.req.valid('json');
+      const result = await reorderItem(c.env, 'subject', id, { afterId, beforeId });
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      return c.json({
+        message: 'Subject reordered',
+        newRank: result.rank,
+        rebalanced: result.rebalanced,
+      });
+    }
+  )
+
+  // Rewrites all subject ranks evenly, keeping the order. Reorders do this on
+  // their own when ranks get too long; this runs it on demand.
+  .post('/api/admin/subjects/rebalance', authorize('owner'), async (c) => {
+    const count = await rebalanceRanks(c.env, 'subject', null);
+    return c.json({ message: 'Subjects rebalanced', count });
+  })
+
+  .post(
+    '/api/admin/subjects/:id/topics/rebalance',
+    authorize('editor', subjectFromParam),
+    async (c) => {
+      const { id } = c.req.param();
+      if (!(await isLive(c.env, 'subject', id))) return errorResponse(c, 404, 'Subject not found.');
+      const count = await rebalanceRanks(c.env, 'topic', Number(id));
+      return c.json({ message: 'Topics rebalanced', count });
+    }
+  )
+
+  // Deleting a subject moves it to the trash with its topics and articles; the
+  // content files stay until the trash is purged.
+  .delete('/api/admin/subjects/:id', authorize('owner', subjectFromParam), async (c) => {
+    const { id } = c.req.param();
+    try {
+      const trashed = await moveToTrash(c.env, 'subject', id);
+      if (!trashed) return errorResponse(c, 404, 'Subject not found.');
+      await purgeArticleContent(c.req.url, trashed.articleIds);
+      return c.json({ message: 'Subject moved to trash', deletedAt: trashed.deletedAt });
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to delete subject');
+    }
+  })
+
+  .post('/api/admin/subjects/:id/restore', authorize('owner', subjectFromParam), async (c) => {
+    const { id } = c.req.param();
+    const result = await restoreFromTrash(c.env, 'subject', id);
+    if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+    await purgeArticleContent(c.req.url, result.articleIds);
+    return c.json({ message: 'Subject restored', restoredFrom: result.restoredFrom });
+  });
 
 // --- Topic Admin Routes ---
-app.post('/api/admin/topics', zValidator('json', TopicSchema), async (c) => {
-  const { title, subjectId } = c.req.valid('json');
-
-  const { results } = await c.env.bodhak
-    .prepare('SELECT rank FROM topics WHERE subject_id = ? ORDER BY rank DESC LIMIT 1')
-    .bind(subjectId)
-    .all();
-  const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
-  const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
-
-  await c.env.bodhak
-    .prepare('INSERT INTO topics (title, subject_id, rank) VALUES (?, ?, ?)')
-    .bind(title, subjectId, newRank.toString())
-    .run();
-  return c.json({ message: 'Topic created', rank: newRank.toString() }, 201);
-});
+const topicRoutes = new Hono<AppEnv>()
+  .post(
+    '/api/admin/topics',
+    authorize('editor', subjectFromBody),
+    zValidator('json', TopicSchema, validationHook),
+    async (c) => {
+      const { title, subjectId } = c.req.valid('json');
+      if (!(await isLive(c.env, 'subject', subjectId))) {
+        return invalidReference(c, `Subject ${subjectId}`);
+      }
 
-app.put('/api/admin/topics/:id', zValidator('json', TopicSchema), async (c) => {
-  const { id } = c.req.param();
-  const { title, subjectId } = c.req.valid('json');
-  await c.env.bodhak
-    .prepare('UPDATE topics SET title = ?, subject_id = ? WHERE id = ?')
-    .bind(title, subjectId, id)
-    .run();
-  return c.json({ message: 'Topic updated' });
-});
+      const { results } = await c.env.bodhak
+        .prepare('SELECT rank FROM topics WHERE subject_id = ? ORDER BY rank DESC LIMIT 1')
+        .bind(subjectId)
+        .all();
+      const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
+      const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
+      const slug = await uniqueSlug(c.env, 'topic', subjectId, title);
 
-app.post('/api/admin/topics/reorder', zValidator('json', ReorderSchema), async (c) => {
-  const { id, beforeRank, afterRank } = c.req.valid('json');
-  const newRank = calculateNewRank(beforeRank, afterRank);
+      const { meta } = await c.env.bodhak
+        .prepare('INSERT INTO topics (title, subject_id, rank, slug) VALUES (?, ?, ?, ?)')
+        .bind(title, subjectId, newRank.toString(), slug)
+        .run();
+      return c.json(
+        { message: 'Topic created', id: meta.last_row_id, rank: newRank.toString(), slug },
+        201
+      );
+    }
+  )
 
-  if (!newRank) return c.json({ error: 'Invalid reorder request' }, 400);
+  .put(
+    '/api/admin/topics/order',
+    authorize('editor', subjectFromBody),
+    zValidator('json', TopicOrderSchema, validationHook),
+    async (c) => {
+      const { subjectId, ids } = c.req.valid('json');
+      if (!(await isLive(c.env, 'subject', subjectId))) {
+        return invalidReference(c, `Subject ${subjectId}`);
+      }
+      const result = await setOrder(c.env, 'topic', subjectId, ids);
+      if (result.error !== undefined) return errorResponse(c, 422, result.error);
+      return c.json({ message: 'Topics ordered', ranks: result.ranks });
+    }
+  )
 
-  await c.env.bodhak
-    .prepare('UPDATE topics SET rank = ? WHERE id = ?')
-    .bind(newRank.toString(), id)
-    .run();
-  return c.json({ message: 'Topic reordered', newRank: newRank.toString() });
-});
+  // Renames a topic. `subjectId` must be its current subject: moving it
+  // elsewhere also needs a new rank, which only the move route gives it.
+  .put(
+    '/api/admin/topics/:id',
+    authorize('editor', subjectOfTopicParam),
+    zValidator('json', TopicSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { title, subjectId } = c.req.valid('json');
 
-app.delete('/api/admin/topics/:id', async (c) => {
-  const { id } = c.req.param();
-  await c.env.bodhak.prepare('DELETE FROM topics WHERE id = ?').bind(id).run();
-  return c.json({ message: 'Topic deleted' });
-});
+      const topic = await c.env.bodhak
+        .prepare(
+          'SELECT id, title, slug, subject_id FROM topics WHERE id = ? AND deleted_at IS NULL'
+        )
+        .bind(id)
+        .first<{ id: number; title: string; slug: string | null; subject_id: number }>();
+      if (!topic) return errorResponse(c, 404, 'Topic not found.');
+      if (subjectId !== topic.subject_id) {
+        return errorResponse(
+          c,
+          422,
+          `Use POST /api/admin/topics/${id}/move to move a topic to another subject`
+        );
+      }
 
-// --- Article Admin Routes (with GitHub) ---
-app.post('/api/admin/articles', zValidator('json', ArticleSchema), async (c) => {
-  const { title, topicId, content } = c.req.valid('json');
+      const { slug, statements } = await renameSlug(
+        c.env,
+        'topic',
+        { ...topic, scopeId: topic.subject_id },
+        title
+      );
+      await c.env.bodhak.batch([
+        c.env.bodhak
+          .prepare('UPDATE topics SET title = ?, slug = ? WHERE id = ?')
+          .bind(title, slug, id),
+        ...statements,
+      ]);
+      return c.json({ message: 'Topic updated', slug });
+    }
+  )
 
-  const slug = title.replaceAll(/[^a-z0-9]/gi, '_').toLowerCase();
-  const filePath = `articles/${slug}-${Date.now()}.json`;
+  .post(
+    '/api/admin/topics/reorder',
+    authorize('editor', subjectOfTopicBodyId),
+    zValidator('json', ReorderSchema, validationHook),
+    async (c) => {
+      const { id, afterId, beforeId } = c.req.valid('json');
+      const result = await reorderItem(c.env, 'topic', id, { afterId, beforeId });
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      return c.json({
+        message: 'Topic reordered',
+        newRank: result.rank,
+        rebalanced: result.rebalanced,
+      });
+    }
+  )
 
-  try {
-    const useMockGH = c.req.header('x-test-mock-gh') === '1';
-    // 1. Push content to GitHub (skip in tests when we set the test header)
-    if (!useMockGH) {
-      await createGitHubFile(c.env, filePath, content, `Added new article: ${title}`);
-    }
-
-    // 2. Insert metadata into D1 database
-    const { results } = await c.env.bodhak
-      .prepare('SELECT rank FROM articles WHERE topic_id = ? ORDER BY rank DESC LIMIT 1')
-      .bind(topicId)
-      .all();
-    const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
-    const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
-
-    await c.env.bodhak
-      .prepare('INSERT INTO articles (title, topic_id, file_path, rank) VALUES (?, ?, ?, ?)')
-      .bind(title, topicId, filePath, newRank.toString())
-      .run();
-
-    return c.json({ message: 'Article created', filePath, rank: newRank.toString() }, 201);
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    return c.json({ error: `Failed to create article: ${message}` }, 500);
-  }
-});
+  // Moves a topic to another subject at the given position. Its old slug keeps
+  // redirecting (see src/slugs.ts).
+  .post(
+    '/api/admin/topics/:id/move',
+    authorize('editor', allOf(subjectOfTopicParam, subjectFromBody)),
+    zValidator('json', TopicMoveSchema, validationHook),
+    async (c) => {
+      const id = Number(c.req.param('id'));
+      const { subjectId, afterId, beforeId } = c.req.valid('json');
 
-app.put('/api/admin/articles/:id', zValidator('json', ArticleSchema), async (c) => {
-  const { id } = c.req.param();
-  const { title, topicId, content } = c.req.valid('json');
+      const topic = await c.env.bodhak
+        .prepare(
+          'SELECT id, title, slug, subject_id FROM topics WHERE id = ? AND deleted_at IS NULL'
+        )
+        .bind(id)
+        .first<{ id: number; title: string; slug: string | null; subject_id: number }>();
+      if (!topic) return errorResponse(c, 404, 'Topic not found.');
+      if (!(await isLive(c.env, 'subject', subjectId))) {
+        return invalidReference(c, `Subject ${subjectId}`);
+      }
 
-  try {
-    const firstRow = await c.env.bodhak
-      .prepare('SELECT file_path FROM articles WHERE id = ?')
-      .bind(id)
-      .first<{ file_path: string }>();
-    if (!firstRow) {
-      return c.json({ error: 'Article not found.' }, 404);
-    }
-    const filePath = firstRow.file_path;
-
-    // 1. Get SHA for the existing file to update it.
-    const useMockGH = c.req.header('x-test-mock-gh') === '1';
-    let fileSha: string | null = null;
-    if (!useMockGH) {
-      fileSha = (await getFileSha(c.env, filePath)) ?? null;
-      if (!fileSha) return c.json({ error: 'GitHub file not found for article.' }, 404);
-
-      // 2. Update the file on GitHub
-      await updateGitHubFile(c.env, filePath, content, `Updated article: ${title}`, fileSha);
-    }
-
-    // 3. Update the D1 database
-    await c.env.bodhak
-      .prepare('UPDATE articles SET title = ?, topic_id = ? WHERE id = ?')
-      .bind(title, topicId, id)
-      .run();
-    return c.json({ message: 'Article updated' });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    return c.json({ error: `Failed to update article: ${message}` }, 500);
-  }
-});
+      const { slug, statements } = await renameSlug(
+        c.env,
+        'topic',
+        { ...topic, scopeId: topic.subject_id },
+        topic.title,
+        subjectId
+      );
+      const result = await moveItem(c.env, 'topic', id, subjectId, { afterId, beforeId }, [
+        c.env.bodhak.prepare('UPDATE topics SET slug = ? WHERE id = ?').bind(slug, id),
+        ...statements,
+      ]);
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      return c.json({ message: 'Topic moved', subjectId, slug, ...result });
+    }
+  )
+
+  .post(
+    '/api/admin/topics/:id/articles/rebalance',
+    authorize('editor', subjectOfTopicParam),
+    async (c) => {
+      const { id } = c.req.param();
+      if (!(await isLive(c.env, 'topic', id))) return errorResponse(c, 404, 'Topic not found.');
+      const count = await rebalanceRanks(c.env, 'article', Number(id));
+      return c.json({ message: 'Articles rebalanced', count });
+    }
+  )
 
-app.post('/api/admin/articles/reorder', zValidator('json', ReorderSchema), async (c) => {
-  const { id, beforeRank, afterRank } = c.req.valid('json');
-  const newRank = calculateNewRank(beforeRank, afterRank);
+  .delete('/api/admin/topics/:id', authorize('editor', subjectOfTopicParam), async (c) => {
+    const { id } = c.req.param();
+    try {
+      const trashed = await moveToTrash(c.env, 'topic', id);
+      if (!trashed) return errorResponse(c, 404, 'Topic not found.');
+      await purgeArticleContent(c.req.url, trashed.articleIds);
+      return c.json({ message: 'Topic moved to trash', deletedAt: trashed.deletedAt });
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to delete topic');
+    }
+  })
 
-  if (!newRank) return c.json({ error: 'Invalid reorder request' }, 400);
+  .post('/api/admin/topics/:id/restore', authorize('editor', subjectOfTopicParam), async (c) => {
+    const { id } = c.req.param();
+    const result = await restoreFromTrash(c.env, 'topic', id);
+    if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+    await purgeArticleContent(c.req.url, result.articleIds);
+    return c.json({ message: 'Topic restored', restoredFrom: result.restoredFrom });
+  });
 
-  await c.env.bodhak
-    .prepare('UPDATE articles SET rank = ? WHERE id = ?')
-    .bind(newRank.toString(), id)
-    .run();
-  return c.json({ message: 'Article reordered', newRank: newRank.toString() });
-});
+// --- Article Admin Routes (content lives in the configured ContentStore) ---
+// Lists articles in every status, e.g. `?status=draft` for the review queue
+const articleRoutes = new Hono<AppEnv>()
+  .get(
+    '/api/admin/articles',
+    authorize('viewer', subjectOfTopicQuery),
+    zValidator('query', ArticleListQuerySchema, validationHook),
+    async (c) => {
+      const { status, topicId } = c.req.valid('query');
+      const { results } = await c.env.bodhak
+        .prepare(
+          `SELECT id, topic_id, title, slug, file_path, rank, status, published_at,
+                content_updated_at, sync_flag FROM articles
+         WHERE (?1 IS NULL OR status = ?1) AND (?2 IS NULL OR topic_id = ?2)
+           AND deleted_at IS NULL
+         ORDER BY topic_id ASC, rank ASC`
+        )
+        .bind(status ?? null, topicId ?? null)
+        .all<Article>();
+      return c.json(results);
+    }
+  )
 
-app.delete('/api/admin/articles/:id', async (c) => {
-  const { id } = c.req.param();
+  .post(
+    '/api/admin/articles',
+    authorize('author', subjectOfTopicBody),
+    zValidator('json', ArticleSchema, validationHook),
+    async (c) => {
+      const { title, topicId, content } = c.req.valid('json');
+      if (!(await isLive(c.env, 'topic', topicId))) return invalidReference(c, `Topic ${topicId}`);
 
-  try {
-    const firstRow = await c.env.bodhak
-      .prepare('SELECT file_path FROM articles WHERE id = ?')
-      .bind(id)
-      .first<{ file_path: string }>();
-    if (!firstRow) {
-      return c.json({ error: 'Article record not found.' }, 404);
-    }
-    const filePath = firstRow.file_path;
-
-    // 1. Get the file SHA to delete the file from GitHub
-    const useMockGH = c.req.header('x-test-mock-gh') === '1';
-    if (!useMockGH) {
-      const fileSha = await getFileSha(c.env, filePath);
-      if (fileSha) {
-        await deleteGitHubFile(c.env, filePath, fileSha, 'Deleted article');
+      const fileName = title.replaceAll(/[^a-z0-9]/gi, '_').toLowerCase();
+      const filePath = `articles/${fileName}-${Date.now()}.json`;
+
+      try {
+        const { results } = await c.env.bodhak
+          .prepare('SELECT rank FROM articles WHERE topic_id = ? ORDER BY rank DESC LIMIT 1')
+          .bind(topicId)
+          .all();
+        const lastRank = results[0] ? LexoRank.parse((results[0] as { rank: string }).rank) : null;
+        const newRank = lastRank ? lastRank.genNext() : LexoRank.middle();
+        const slug = await uniqueSlug(c.env, 'article', topicId, title);
+
+        // 1. Insert metadata and the pending content write in one batch
+        const [inserted, queued] = await c.env.bodhak.batch<{ id: number }>([
+          c.env.bodhak
+            .prepare(
+              'INSERT INTO articles (title, topic_id, file_path, rank, slug) VALUES (?, ?, ?, ?, ?)'
+            )
+            .bind(title, topicId, filePath, newRank.toString(), slug),
+          enqueue(c.env, {
+            kind: 'article_create',
+            path: filePath,
+            content: serializeArticle(content),
+            message: `Added new article: ${title}`,
+          }),
+        ]);
+
+        // 2. Write the content to the store; on failure the row is removed again.
+        // `pending` means the content is stored and only the indexing is retried.
+        const outcome = await processOutboxEntry(c.env, queued.results[0].id, {
+          compensateOnFailure: true,
+        });
+        if (outcome.state === 'compensated' || outcome.state === 'failed') {
+          return errorResponse(c, 500, `Failed to create article: ${outcome.error}`);
+        }
+
+        return c.json(
+          {
+            message: 'Article created',
+            id: inserted.meta.last_row_id,
+            filePath,
+            rank: newRank.toString(),
+            slug,
+          },
+          201
+        );
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to create article');
       }
     }
+  )
 
-    // 2. Delete the record from D1 database
-    await c.env.bodhak.prepare('DELETE FROM articles WHERE id = ?').bind(id).run();
+  .put(
+    '/api/admin/articles/order',
+    authorize('editor', subjectOfTopicBody),
+    zValidator('json', ArticleOrderSchema, validationHook),
+    async (c) => {
+      const { topicId, ids } = c.req.valid('json');
+      if (!(await isLive(c.env, 'topic', topicId))) return invalidReference(c, `Topic ${topicId}`);
+      const result = await setOrder(c.env, 'article', topicId, ids);
+      if (result.error !== undefined) return errorResponse(c, 422, result.error);
+      return c.json({ message: 'Articles ordered', ranks: result.ranks });
+    }
+  )
 
-    return c.json({ message: 'Article deleted' });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    return c.json({ error: `Failed to delete article: ${message}` }, 500);
-  }
+  // Updates the title and content of an article. `topicId` must be its
+  // current topic: moving it elsewhere goes through the move route.
+  .put(
+    '/api/admin/articles/:id',
+    authorize('author', subjectOfArticleParam),
+    zValidator('json', ArticleSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { title, topicId, content } = c.req.valid('json');
+
+      try {
+        const firstRow = await c.env.bodhak
+          .prepare(
+            `SELECT a.id, a.title, a.topic_id, a.file_path, a.slug, a.status, t.subject_id
+             FROM articles a LEFT JOIN topics t ON t.id = a.topic_id
+             WHERE a.id = ? AND a.deleted_at IS NULL`
+          )
+          .bind(id)
+          .first<{
+            id: number;
+            title: string;
+            topic_id: number | null;
+            file_path: string;
+            slug: string | null;
+            status: ArticleStatus;
+            subject_id: number | null;
+          }>();
+        if (!firstRow) {
+          return errorResponse(c, 404, 'Article not found.');
+        }
+        // What readers see of a published article is the editors' call
+        if (firstRow.status === 'published') {
+          const denied = await checkRole(c, 'editor', firstRow.subject_id);
+          if (denied) return denied;
+        }
+        if (topicId !== firstRow.topic_id) {
+          return errorResponse(
+            c,
+            422,
+            `Use POST /api/admin/articles/${id}/move to move an article to another topic`
+          );
+        }
+        const { slug, statements } = await renameSlug(
+          c.env,
+          'article',
+          { ...firstRow, scopeId: firstRow.topic_id },
+          title
+        );
+
+        // 1. Update the D1 database and queue the content write in one batch
+        const [, queued] = await c.env.bodhak.batch<{ id: number }>([
+          c.env.bodhak
+            .prepare('UPDATE articles SET title = ?, slug = ? WHERE id = ?')
+            .bind(title, slug, id),
+          enqueue(c.env, {
+            kind: 'article_update',
+            articleId: id,
+            path: firstRow.file_path,
+            content: serializeArticle(content),
+            message: `Updated article: ${title}`,
+            rollback: { title: firstRow.title, topic_id: firstRow.topic_id, slug: firstRow.slug },
+          }),
+          ...statements,
+        ]);
+
+        // 2. Write the content; on failure the old title/topic/slug are put back.
+        // `pending` means the content is stored and only the indexing is retried.
+        const outcome = await processOutboxEntry(c.env, queued.results[0].id, {
+          compensateOnFailure: true,
+        });
+        if (outcome.state === 'compensated' || outcome.state === 'failed') {
+          return errorResponse(c, 500, `Failed to update article: ${outcome.error}`);
+        }
+        await purgeArticleContent(c.req.url, [id]);
+        return c.json({ message: 'Article updated', slug });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to update article');
+      }
+    }
+  )
+
+  // --- Article revisions (the history of the article's file in the store) ---
+  .get(
+    '/api/admin/articles/:id/revisions',
+    authorize('viewer', subjectOfArticleParam),
+    zValidator('query', RevisionListQuerySchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { page } = c.req.valid('query');
+
+      try {
+        const article = await c.env.bodhak
+          .prepare('SELECT file_path FROM articles WHERE id = ? AND deleted_at IS NULL')
+          .bind(id)
+          .first<{ file_path: string }>();
+        if (!article) return errorResponse(c, 404, 'Article not found.');
+
+        const revisions = await getContentStore(c.env).history(article.file_path, page);
+        return c.json(revisions);
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to list revisions');
+      }
+    }
+  )
+
+  .get(
+    '/api/admin/articles/:id/revisions/:sha',
+    authorize('viewer', subjectOfArticleParam),
+    async (c) => {
+      const { id, sha } = c.req.param();
+
+      try {
+        const article = await c.env.bodhak
+          .prepare('SELECT file_path FROM articles WHERE id = ? AND deleted_at IS NULL')
+          .bind(id)
+          .first<{ file_path: string }>();
+        if (!article) return errorResponse(c, 404, 'Article not found.');
+
+        const content = await getContentStore(c.env).get(article.file_path, sha);
+        if (content === null) return errorResponse(c, 404, 'Revision not found.');
+
+        return c.json({ sha, content });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to fetch revision');
+      }
+    }
+  )
+
+  // Writes the content of an old revision back as a new write, so the restore
+  // itself shows up in the history and can be undone the same way.
+  .post(
+    '/api/admin/articles/:id/revisions/:sha/restore',
+    authorize('author', subjectOfArticleParam),
+    async (c) => {
+      const { id, sha } = c.req.param();
+
+      try {
+        const article = await c.env.bodhak
+          .prepare(
+            `SELECT a.title, a.topic_id, a.file_path, a.slug, a.status, t.subject_id
+             FROM articles a LEFT JOIN topics t ON t.id = a.topic_id
+             WHERE a.id = ? AND a.deleted_at IS NULL`
+          )
+          .bind(id)
+          .first<{
+            title: string;
+            topic_id: number | null;
+            file_path: string;
+            slug: string | null;
+            status: ArticleStatus;
+            subject_id: number | null;
+          }>();
+        if (!article) return errorResponse(c, 404, 'Article not found.');
+        if (article.status === 'published') {
+          const denied = await checkRole(c, 'editor', article.subject_id);
+          if (denied) return denied;
+        }
+
+        const content = await getContentStore(c.env).get(article.file_path, sha);
+        if (content === null) return errorResponse(c, 404, 'Revision not found.');
+        if (!parseArticle(content)) {
+          return errorResponse(c, 422, 'Revision is not a valid article document');
+        }
+
+        // Nothing changes in D1, so the rollback only keeps the row as it is
+        const [queued] = await c.env.bodhak.batch<{ id: number }>([
+          enqueue(c.env, {
+            kind: 'article_update',
+            articleId: id,
+            path: article.file_path,
+            content,
+            message: `Restored article: ${article.title} (from ${sha.slice(0, 7)})`,
+            rollback: { title: article.title, topic_id: article.topic_id, slug: article.slug },
+          }),
+        ]);
+        const outcome = await processOutboxEntry(c.env, queued.results[0].id, {
+          compensateOnFailure: true,
+        });
+        if (outcome.state === 'compensated' || outcome.state === 'failed') {
+          return errorResponse(c, 500, `Failed to restore revision: ${outcome.error}`);
+        }
+        await purgeArticleContent(c.req.url, [id]);
+
+        return c.json({ message: 'Article restored', restoredFrom: sha });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to restore revision');
+      }
+    }
+  )
+
+  .put(
+    '/api/admin/articles/:id/status',
+    authorize('author', subjectOfArticleParam),
+    zValidator('json', ArticleStatusSchema, validationHook),
+    async (c) => {
+      const { id } = c.req.param();
+      const { status } = c.req.valid('json');
+
+      const article = await c.env.bodhak
+        .prepare(
+          `SELECT a.status, t.subject_id FROM articles a LEFT JOIN topics t ON t.id = a.topic_id
+           WHERE a.id = ? AND a.deleted_at IS NULL`
+        )
+        .bind(id)
+        .first<{ status: ArticleStatus; subject_id: number | null }>();
+      if (!article) return errorResponse(c, 404, 'Article not found.');
+
+      if (!STATUS_TRANSITIONS[article.status].includes(status)) {
+        return errorResponse(c, 409, `Cannot change status from ${article.status} to ${status}`);
+      }
+
+      // Authors may only move articles between draft and review
+      if (status === 'published' || status === 'archived' || article.status === 'published') {
+        const denied = await checkRole(c, 'editor', article.subject_id);
+        if (denied) return denied;
+      }
+
+      await c.env.bodhak
+        .prepare(
+          `UPDATE articles SET status = ?1,
+         published_at = CASE WHEN ?1 = 'published' THEN strftime('%Y-%m-%dT%H:%M:%fZ', 'now') ELSE published_at END
+         WHERE id = ?2`
+        )
+        .bind(status, id)
+        .run();
+      // Unpublished articles must stop being served from the cache
+      await purgeArticleContent(c.req.url, [id]);
+      return c.json({ message: 'Article status updated', status });
+    }
+  )
+
+  .post(
+    '/api/admin/articles/reorder',
+    authorize('editor', subjectOfArticleBodyId),
+    zValidator('json', ReorderSchema, validationHook),
+    async (c) => {
+      const { id, afterId, beforeId } = c.req.valid('json');
+      const result = await reorderItem(c.env, 'article', id, { afterId, beforeId });
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      return c.json({
+        message: 'Article reordered',
+        newRank: result.rank,
+        rebalanced: result.rebalanced,
+      });
+    }
+  )
+
+  // Moves an article to another topic (or files an unfiled one) at the given
+  // position. Its old slug keeps redirecting (see src/slugs.ts).
+  .post(
+    '/api/admin/articles/:id/move',
+    authorize('editor', allOf(subjectOfArticleParam, subjectOfTopicBody)),
+    zValidator('json', ArticleMoveSchema, validationHook),
+    async (c) => {
+      const id = Number(c.req.param('id'));
+      const { topicId, afterId, beforeId } = c.req.valid('json');
+
+      const article = await c.env.bodhak
+        .prepare(
+          'SELECT id, title, slug, topic_id FROM articles WHERE id = ? AND deleted_at IS NULL'
+        )
+        .bind(id)
+        .first<{ id: number; title: string; slug: string | null; topic_id: number | null }>();
+      if (!article) return errorResponse(c, 404, 'Article not found.');
+      if (!(await isLive(c.env, 'topic', topicId))) return invalidReference(c, `Topic ${topicId}`);
+
+      const { slug, statements } = await renameSlug(
+        c.env,
+        'article',
+        { ...article, scopeId: article.topic_id },
+        article.title,
+        topicId
+      );
+      const result = await moveItem(c.env, 'article', id, topicId, { afterId, beforeId }, [
+        c.env.bodhak.prepare('UPDATE articles SET slug = ? WHERE id = ?').bind(slug, id),
+        ...statements,
+      ]);
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      return c.json({ message: 'Article moved', topicId, slug, ...result });
+    }
+  )
+
+  // The content file is kept while the article is in the trash
+  .delete('/api/admin/articles/:id', authorize('editor', subjectOfArticleParam), async (c) => {
+    const { id } = c.req.param();
+    try {
+      const trashed = await moveToTrash(c.env, 'article', id);
+      if (!trashed) return errorResponse(c, 404, 'Article record not found.');
+      await purgeArticleContent(c.req.url, [id]);
+      return c.json({ message: 'Article moved to trash', deletedAt: trashed.deletedAt });
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to delete article');
+    }
+  })
+
+  .post(
+    '/api/admin/articles/:id/restore',
+    authorize('editor', subjectOfArticleParam),
+    async (c) => {
+      const { id } = c.req.param();
+      const result = await restoreFromTrash(c.env, 'article', id);
+      if (result.error !== undefined) return errorResponse(c, result.status, result.error);
+      await purgeArticleContent(c.req.url, [id]);
+      return c.json({ message: 'Article restored', restoredFrom: result.restoredFrom });
+    }
+  );
+
+// --- Maintenance ---
+const maintenanceRoutes = new Hono<AppEnv>()
+  // Audit log
+  .get(
+    '/api/admin/audit',
+    authorize('owner'),
+    zValidator('query', AuditQuerySchema, validationHook),
+    async (c) => {
+      return c.json(await listAudit(c.env, c.req.valid('query')));
+    }
+  )
+
+  // --- Trash (soft-deleted subjects, topics and articles) ---
+  .get('/api/admin/trash', authorize('editor'), async (c) => {
+    return c.json(await listTrash(c.env));
+  })
+
+  // Permanently deletes trashed rows and their content files; by default
+  // everything in the trash, or only what was deleted `olderThanDays` ago
+  .post(
+    '/api/admin/trash/purge',
+    authorize('owner'),
+    zValidator('query', TrashPurgeQuerySchema, validationHook),
+    async (c) => {
+      const { olderThanDays } = c.req.valid('query');
+      try {
+        return c.json({ message: 'Trash purged', ...(await purgeTrash(c.env, olderThanDays)) });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to purge trash');
+      }
+    }
+  )
+
+  // --- Content outbox (pending ContentStore writes) ---
+  .get(
+    '/api/admin/outbox',
+    authorize('owner'),
+    zValidator('query', OutboxQuerySchema, validationHook),
+    async (c) => {
+      const { state } = c.req.valid('query');
+      return c.json(await listOutbox(c.env, state));
+    }
+  )
+
+  .post('/api/admin/outbox/process', authorize('owner'), async (c) => {
+    return c.json(await processPendingOutbox(c.env));
+  })
+
+  .post('/api/admin/outbox/:id/retry', authorize('owner'), async (c) => {
+    const { id } = c.req.param();
+    if (!(await requeueOutboxEntry(c.env, id))) {
+      return errorResponse(c, 404, 'No failed outbox entry with that id');
+    }
+    return c.json(await processOutboxEntry(c.env, Number(id)));
+  })
+
+  // --- Reconciliation between the articles table and the content store ---
+  .get('/api/admin/reconcile', authorize('owner'), async (c) => {
+    try {
+      return c.json(await reconcileArticles(c.env));
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to reconcile articles');
+    }
+  })
+
+  .post(
+    '/api/admin/reconcile/repair',
+    authorize('owner'),
+    zValidator('json', RepairSchema, validationHook),
+    async (c) => {
+      const { deleteOrphans } = c.req.valid('json');
+      try {
+        return c.json(await repairArticles(c.env, { deleteOrphans }));
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to repair articles');
+      }
+    }
+  )
+
+  // --- Search index ---
+  // Rebuilds the index from scratch, e.g. after content was edited in the repo
+  .post('/api/admin/search/reindex', authorize('owner'), async (c) => {
+    try {
+      return c.json({ message: 'Search index rebuilt', ...(await rebuildSearchIndex(c.env)) });
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to rebuild search index');
+    }
+  })
+
+  // --- Curriculum export/import (portable JSON bundle) ---
+  .get('/api/admin/export', authorize('owner'), async (c) => {
+    try {
+      const bundle = await exportCurriculum(c.env);
+      const date = bundle.exportedAt.slice(0, 10);
+      c.header('Content-Disposition', `attachment; filename="curriculum-${date}.json"`);
+      return c.json(bundle);
+    } catch (err) {
+      return exceptionResponse(c, err, 'Failed to export curriculum');
+    }
+  })
+
+  // Loads a bundle from GET /api/admin/export, e.g. `?mode=replace&dryRun=true`
+  // to see what replacing the curriculum would do
+  .post(
+    '/api/admin/import',
+    authorize('owner'),
+    zValidator('query', ImportQuerySchema, validationHook),
+    zValidator('json', BundleSchema, validationHook),
+    async (c) => {
+      const { mode, dryRun } = c.req.valid('query');
+      try {
+        const { changedArticleIds, ...result } = await importCurriculum(
+          c.env,
+          c.req.valid('json'),
+          {
+            mode,
+            dryRun,
+          }
+        );
+        await purgeArticleContent(c.req.url, changedArticleIds);
+        if (!dryRun) await fillMissingSlugs(c.env);
+        return c.json({ message: dryRun ? 'Dry run' : 'Curriculum imported', ...result });
+      } catch (err) {
+        return exceptionResponse(c, err, 'Failed to import curriculum');
+      }
+    }
+  );
+
+// Registration order matters: the admin middleware has to come after the
+// login routes and before every other /api/admin route. It stays out of the
+// chain because a chained .use() with a path would retype the routes before it.
+const openRoutes = app.route('/', publicRoutes).route('/', webhookRoutes).route('/', authRoutes);
+
+// Apply JWT authentication middleware to all admin routes
+app.use('/api/admin/*', async (c, next) => {
+  return jwtAuth(c.env.JWT_SECRET)(c, next);
+});
+
+// Any successful admin write may change the hierarchy served by GET /api/tree
+app.use('/api/admin/*', async (c, next) => {
+  await next();
+  if (c.req.method !== 'GET' && c.res.status < 400) await purgeTree(c.req.url);
 });
 
-export default app;
+app.use('/api/admin/*', auditLog());
+
+const routes = openRoutes
+  .route('/', accountRoutes)
+  .route('/', subjectRoutes)
+  .route('/', topicRoutes)
+  .route('/', articleRoutes)
+  .route('/', maintenanceRoutes);
+
+// Type of the whole API, for hono/client (see src/client.ts)
+export type AppType = typeof routes;
+
+export default {
+  fetch: app.fetch,
+  // Cron trigger (see wrangler.jsonc): retries storage writes left in the
+  // outbox, gives slugs to rows that were written without one and purges what
+  // has been in the trash for TRASH_RETENTION_DAYS
+  scheduled: async (_controller: ScheduledController, env: Env, ctx: ExecutionContext) => {
+    ctx.waitUntil(processPendingOutbox(env));
+    ctx.waitUntil(fillMissingSlugs(env));
+    ctx.waitUntil(purgeTrash(env, TRASH_RETENTION_DAYS));
+  },
+} satisfies ExportedHandler<Env>;
 
-// Export helper for unit tests
-export { calculateNewRank };
+// Exported for unit tests
+export { app, calculateNewRank };
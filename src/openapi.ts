@@ -0,0 +1,1181 @@
+// src/openapi.ts
+import { z } from 'zod';
+import { ArticleDocumentSchema } from './articleFormat';
+import {
+  ArticleListQuerySchema,
+  ArticleMoveSchema,
+  ArticleOrderSchema,
+  ArticleSchema,
+  ArticleStatusSchema,
+  AuditQuerySchema,
+  BundleSchema,
+  ContentQuerySchema,
+  ImportQuerySchema,
+  LoginSchema,
+  OrderSchema,
+  OutboxQuerySchema,
+  pageQuerySchema,
+  PasswordSchema,
+  PUBLIC_ARTICLE_FIELDS,
+  ReorderSchema,
+  RepairSchema,
+  RevisionListQuerySchema,
+  RoleSchema,
+  SearchQuerySchema,
+  SUBJECT_FIELDS,
+  SubjectSchema,
+  TOPIC_FIELDS,
+  TopicMoveSchema,
+  TopicOrderSchema,
+  TopicSchema,
+  TrashPurgeQuerySchema,
+  UserSchema,
+} from './schemas';
+import {
+  ARTICLE_STATUSES,
+  ERROR_CODES,
+  ErrorStatus,
+  IMPORT_MODES,
+  OUTBOX_STATES,
+  Role,
+  ROLES,
+} from './types';
+
+// The OpenAPI 3.1 document served at GET /openapi.json. Request bodies and
+// query parameters come from the zod schemas the routes validate with
+// (src/schemas.ts); responses are described by the models below. ROUTES must
+// list every route of src/index.ts, which test/unit/index.test.ts checks.
+
+// --- Response models ---
+
+const id = z.number().int();
+const timestamp = z.string().meta({ format: 'date-time' });
+const slug = z.string().nullable();
+
+const Message = z.object({ message: z.string() });
+const Subject = z.object({ id, title: z.string(), slug, rank: z.string() });
+const Topic = Subject.extend({ subject_id: id });
+const PublicArticle = z.object({
+  id,
+  topic_id: id,
+  title: z.string(),
+  slug,
+  rank: z.string(),
+  published_at: timestamp.nullable(),
+  content_url: z.string(),
+});
+const AdminArticle = z.object({
+  id,
+  topic_id: id.nullable(),
+  title: z.string(),
+  slug,
+  file_path: z.string(),
+  rank: z.string(),
+  status: z.enum(ARTICLE_STATUSES),
+  published_at: timestamp.nullable(),
+  content_updated_at: timestamp.nullable(),
+  sync_flag: z.literal('file_removed').nullable(),
+});
+// Items carry only the requested columns when `fields` is given
+const page = <T extends z.ZodType>(item: T) => z.object({ data: z.array(item), next: slug });
+
+const TreeArticle = PublicArticle.omit({ topic_id: true });
+const TreeTopic = Subject.extend({ articles: z.array(TreeArticle) });
+const TreeSubject = Subject.extend({ topics: z.array(TreeTopic) });
+
+const Breadcrumb = z.object({ id, title: z.string() }).nullable();
+const SearchResult = z.object({
+  kind: z.enum(['subject', 'topic', 'article']),
+  id,
+  title: z.string(),
+  snippet: z.string().nullable(),
+  score: z.number(),
+  breadcrumb: z.object({ subject: Breadcrumb, topic: Breadcrumb }),
+});
+
+const User = z.object({
+  id,
+  username: z.string(),
+  role: z.enum(ROLES),
+  disabled: z.boolean(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+const Session = z.object({
+  id: z.string(),
+  user_agent: z.string().nullable(),
+  created_at: timestamp,
+  last_used_at: timestamp,
+  expires_at: timestamp,
+  current: z.boolean(),
+});
+const SubjectGrant = z.object({ user_id: id, subject_id: id, role: z.enum(ROLES) });
+
+const Created = Message.extend({ id, rank: z.string(), slug });
+const Renamed = Message.extend({ slug });
+const Ranks = Message.extend({ ranks: z.array(z.object({ id, rank: z.string() })) });
+const Reordered = Message.extend({ newRank: z.string(), rebalanced: z.boolean() });
+const Placed = Message.extend({
+  slug,
+  rank: z.string(),
+  position: z.number().int(),
+  rebalanced: z.boolean(),
+});
+const Rebalanced = Message.extend({ count: z.number().int() });
+const Trashed = Message.extend({ deletedAt: timestamp });
+const Restored = Message.extend({ restoredFrom: timestamp });
+
+const Revision = z.object({
+  sha: z.string(),
+  message: z.string(),
+  author: z.string().nullable(),
+  date: timestamp.nullable(),
+});
+const TrashItem = z.object({
+  kind: z.enum(['subject', 'topic', 'article']),
+  id,
+  title: z.string(),
+  parent_id: id.nullable(),
+  deleted_at: timestamp,
+});
+const AuditEntry = z.object({
+  id,
+  user_id: id,
+  username: z.string(),
+  action: z.string(),
+  entity_type: z.string(),
+  entity_id: z.string().nullable(),
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  request_id: z.string().nullable(),
+  created_at: timestamp,
+});
+const OutboxEntry = z.object({
+  id,
+  kind: z.enum(['article_create', 'article_update', 'article_delete']),
+  article_id: id.nullable(),
+  path: z.string(),
+  message: z.string(),
+  state: z.enum(OUTBOX_STATES),
+  attempts: z.number().int(),
+  last_error: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+const OutboxOutcome = z.object({ state: z.enum(OUTBOX_STATES), error: z.string().nullable() });
+const ReconcileReport = z.object({
+  orphanedFiles: z.array(z.string()),
+  missingFiles: z.array(z.object({ id, title: z.string(), file_path: z.string() })),
+  duplicates: z.array(z.object({ file_path: z.string(), articleIds: z.array(id) })),
+});
+const ImportCounts = z.object({
+  created: z.number().int(),
+  updated: z.number().int(),
+  unchanged: z.number().int(),
+  deleted: z.number().int(),
+  purged: z.number().int(),
+});
+
+const ErrorBody = z.object({
+  error: z.string(),
+  code: z.enum(ERROR_CODES),
+  // Also sent in the X-Request-Id header
+  requestId: z.string().nullable(),
+  details: z.unknown().optional(),
+});
+const ValidationError = ErrorBody.extend({
+  details: z.array(z.object({ path: z.string(), message: z.string() })),
+});
+
+// Named schemas, referenced from the operations as #/components/schemas/<name>
+const MODELS = {
+  Message,
+  Subject,
+  Topic,
+  PublicArticle,
+  AdminArticle,
+  SubjectPage: page(Subject),
+  TopicPage: page(Topic),
+  PublicArticlePage: page(PublicArticle),
+  TreeSubject,
+  Search: z.object({ query: z.string(), results: z.array(SearchResult) }),
+  SlugResolution: z.object({
+    subject: Subject,
+    topic: Topic.optional(),
+    article: PublicArticle.optional(),
+  }),
+  ArticleDocument: ArticleDocumentSchema,
+  Health: z.object({
+    status: z.literal('ok'),
+    timestamp,
+    db: z.enum(['ok', 'error', 'skipped']),
+    dbError: z.string().optional(),
+  }),
+  PushApplied: Message.extend({
+    modified: z.number().int(),
+    renamed: z.number().int(),
+    flagged: z.number().int(),
+    created: z.number().int(),
+  }),
+  LoggedIn: Message.extend({ user: User }),
+  LoggedOutEverywhere: Message.extend({ revoked: z.number().int() }),
+  User,
+  UserCreated: Message.extend({ user: User }),
+  Session,
+  SubjectGrant,
+  Created,
+  ArticleCreated: Created.extend({ filePath: z.string() }),
+  Renamed,
+  Ranks,
+  Reordered,
+  TopicMoved: Placed.extend({ subjectId: id }),
+  ArticleMoved: Placed.extend({ topicId: id }),
+  Rebalanced,
+  Trashed,
+  Restored,
+  StatusChanged: Message.extend({ status: z.enum(ARTICLE_STATUSES) }),
+  Revision,
+  RevisionContent: z.object({ sha: z.string(), content: z.string() }),
+  RevisionRestored: Message.extend({ restoredFrom: z.string() }),
+  TrashItem,
+  TrashPurged: Message.extend({
+    subjects: z.number().int(),
+    topics: z.number().int(),
+    articles: z.number().int(),
+    contentRemoval: z.enum(OUTBOX_STATES),
+  }),
+  AuditPage: z.object({ data: z.array(AuditEntry), next: id.nullable() }),
+  OutboxEntry,
+  OutboxOutcome,
+  OutboxSummary: z.object({
+    processed: z.number().int(),
+    done: z.number().int(),
+    pending: z.number().int(),
+    compensated: z.number().int(),
+    failed: z.number().int(),
+  }),
+  ReconcileReport,
+  RepairResult: z.object({
+    report: ReconcileReport,
+    repairs: z.object({
+      copied: z.array(z.object({ id, file_path: z.string() })),
+      unpublished: z.array(id),
+      orphansDeleted: z.array(z.string()),
+      errors: z.array(z.string()),
+    }),
+  }),
+  Reindexed: Message.extend({ articles: z.number().int(), withContent: z.number().int() }),
+  Bundle: BundleSchema,
+  ImportResult: Message.extend({
+    mode: z.enum(IMPORT_MODES),
+    dryRun: z.boolean(),
+    subjects: ImportCounts,
+    topics: ImportCounts,
+    articles: ImportCounts,
+  }),
+  Error: ErrorBody,
+  ValidationError,
+};
+
+type Model = keyof typeof MODELS;
+
+// Request bodies, as the client sends them (defaults are optional)
+const BODIES = {
+  Login: LoginSchema,
+  SubjectInput: SubjectSchema,
+  TopicInput: TopicSchema,
+  // `content` is also accepted as the document's JSON text
+  ArticleInput: ArticleSchema.extend({ content: ArticleDocumentSchema }),
+  UserInput: UserSchema,
+  PasswordInput: PasswordSchema,
+  RoleInput: RoleSchema,
+  ArticleStatusInput: ArticleStatusSchema,
+  OrderInput: OrderSchema,
+  TopicOrderInput: TopicOrderSchema,
+  ArticleOrderInput: ArticleOrderSchema,
+  ReorderInput: ReorderSchema,
+  TopicMoveInput: TopicMoveSchema,
+  ArticleMoveInput: ArticleMoveSchema,
+  RepairInput: RepairSchema,
+  BundleInput: BundleSchema,
+  // GitHub push event; only the fields the webhook reads are listed
+  PushEvent: z.looseObject({
+    ref: z.string(),
+    repository: z.looseObject({ default_branch: z.string() }).optional(),
+    commits: z.array(z.looseObject({})).optional(),
+  }),
+};
+
+type Body = keyof typeof BODIES;
+
+// --- Routes ---
+
+// Who may call a route: anyone, the holder of a valid session cookie (any
+// role), or a session whose role is at least the given one. Routes scoped to a
+// subject also accept that role through a grant on the subject.
+type Access = 'public' | 'session' | Role;
+
+interface RouteDoc {
+  method: 'get' | 'post' | 'put' | 'delete';
+  // Hono pattern, e.g. /api/admin/topics/:id/move
+  path: string;
+  tag: string;
+  summary: string;
+  access: Access;
+  query?: z.ZodObject;
+  body?: Body;
+  // JSON model of the success response
+  response?: Model;
+  status?: 200 | 201;
+  // Success response schemas by media type, for routes that do not answer
+  // with a single JSON model
+  content?: Record<string, object>;
+  // Other responses than the success and the errors implied by the route
+  extra?: Record<number, string>;
+  errors?: ErrorStatus[];
+  description?: string;
+}
+
+const PUBLIC_LIST = 'Cursor pagination: pass `next` back as `cursor` for the following page.';
+
+export const ROUTES: RouteDoc[] = [
+  // Public
+  {
+    method: 'get',
+    path: '/api/subjects',
+    tag: 'Public',
+    summary: 'List subjects',
+    access: 'public',
+    query: pageQuerySchema(SUBJECT_FIELDS),
+    response: 'SubjectPage',
+    description: PUBLIC_LIST,
+  },
+  {
+    method: 'get',
+    path: '/api/subjects/:subjectId/topics',
+    tag: 'Public',
+    summary: 'List the topics of a subject',
+    access: 'public',
+    query: pageQuerySchema(TOPIC_FIELDS),
+    response: 'TopicPage',
+    description: PUBLIC_LIST,
+  },
+  {
+    method: 'get',
+    path: '/api/topics/:topicId/articles',
+    tag: 'Public',
+    summary: 'List the published articles of a topic',
+    access: 'public',
+    query: pageQuerySchema(PUBLIC_ARTICLE_FIELDS),
+    response: 'PublicArticlePage',
+    description: PUBLIC_LIST,
+  },
+  {
+    method: 'get',
+    path: '/api/articles/:id/content',
+    tag: 'Public',
+    summary: 'Get the content of a published article',
+    access: 'public',
+    query: ContentQuerySchema,
+    content: {
+      'application/json': { $ref: '#/components/schemas/ArticleDocument' },
+      'text/html': { type: 'string' },
+      'text/markdown': { type: 'string' },
+    },
+    extra: { 304: 'Not modified (If-None-Match)' },
+    description: 'The media type follows `format`. Served from the edge cache when possible.',
+  },
+  {
+    method: 'get',
+    path: '/api/tree',
+    tag: 'Public',
+    summary: 'Get every subject with its topics and published articles',
+    access: 'public',
+    response: 'TreeSubject',
+    extra: { 304: 'Not modified (If-None-Match)' },
+  },
+  {
+    method: 'get',
+    path: '/api/search',
+    tag: 'Public',
+    summary: 'Search subjects, topics and published articles',
+    access: 'public',
+    query: SearchQuerySchema,
+    response: 'Search',
+    description: '`title` and `snippet` are escaped HTML with matches wrapped in `<mark>`.',
+  },
+  ...['/api/s/:subjectSlug', '/api/s/:subjectSlug/:topicSlug'].map((path): RouteDoc => ({
+    method: 'get',
+    path,
+    tag: 'Public',
+    summary: 'Resolve a slug path',
+    access: 'public',
+    response: 'SlugResolution',
+    extra: { 301: 'Moved: the Location header has the current path' },
+  })),
+  {
+    method: 'get',
+    path: '/api/s/:subjectSlug/:topicSlug/:articleSlug',
+    tag: 'Public',
+    summary: 'Resolve a slug path to a published article',
+    access: 'public',
+    response: 'SlugResolution',
+    extra: { 301: 'Moved: the Location header has the current path' },
+  },
+  {
+    method: 'get',
+    path: '/health',
+    tag: 'Public',
+    summary: 'Health check',
+    access: 'public',
+    response: 'Health',
+  },
+  {
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Docs',
+    summary: 'This document',
+    access: 'public',
+    content: { 'application/json': { type: 'object' } },
+  },
+  {
+    method: 'get',
+    path: '/docs',
+    tag: 'Docs',
+    summary: 'API documentation UI',
+    access: 'public',
+    content: { 'text/html': { type: 'string' } },
+  },
+  {
+    method: 'post',
+    path: '/webhooks/github',
+    tag: 'Webhooks',
+    summary: 'Apply a push to the content repository',
+    access: 'public',
+    body: 'PushEvent',
+    response: 'PushApplied',
+    extra: { 202: 'Ignored: not a push to the content branch' },
+    errors: [400, 401, 503],
+    description: 'Authenticated by the `X-Hub-Signature-256` HMAC of the body, not a session.',
+  },
+
+  // Sessions
+  {
+    method: 'post',
+    path: '/api/admin/login',
+    tag: 'Sessions',
+    summary: 'Log in',
+    access: 'public',
+    body: 'Login',
+    response: 'LoggedIn',
+    errors: [401, 403],
+    description: 'Sets the `token` and `refresh_token` cookies.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/refresh',
+    tag: 'Sessions',
+    summary: 'Renew the access token',
+    access: 'public',
+    response: 'Message',
+    errors: [401],
+    description: 'Needs the `refresh_token` cookie; rotates both cookies.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/logout',
+    tag: 'Sessions',
+    summary: 'Log out',
+    access: 'public',
+    response: 'Message',
+    description: 'Revokes the session of the `refresh_token` cookie and clears both cookies.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/logout-all',
+    tag: 'Sessions',
+    summary: 'Revoke every session of the caller',
+    access: 'session',
+    response: 'LoggedOutEverywhere',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/sessions',
+    tag: 'Sessions',
+    summary: "List the caller's active sessions",
+    access: 'session',
+    response: 'Session',
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/sessions/:id',
+    tag: 'Sessions',
+    summary: "Revoke one of the caller's sessions",
+    access: 'session',
+    response: 'Message',
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/api/admin/users',
+    tag: 'Users',
+    summary: 'List users',
+    access: 'owner',
+    response: 'User',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users',
+    tag: 'Users',
+    summary: 'Create a user',
+    access: 'owner',
+    body: 'UserInput',
+    response: 'UserCreated',
+    status: 201,
+    errors: [409],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:id/disable',
+    tag: 'Users',
+    summary: 'Disable a user and revoke their sessions',
+    access: 'owner',
+    response: 'Message',
+    errors: [400],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:id/enable',
+    tag: 'Users',
+    summary: 'Enable a user',
+    access: 'owner',
+    response: 'Message',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:id/password',
+    tag: 'Users',
+    summary: "Reset a password and revoke the user's sessions",
+    access: 'owner',
+    body: 'PasswordInput',
+    response: 'Message',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:id/role',
+    tag: 'Users',
+    summary: "Change a user's role",
+    access: 'owner',
+    body: 'RoleInput',
+    response: 'Message',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:id/grants',
+    tag: 'Users',
+    summary: "List a user's subject grants",
+    access: 'owner',
+    response: 'SubjectGrant',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:id/grants/:subjectId',
+    tag: 'Users',
+    summary: 'Grant a role on a subject',
+    access: 'owner',
+    body: 'RoleInput',
+    response: 'Message',
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/users/:id/grants/:subjectId',
+    tag: 'Users',
+    summary: 'Remove a subject grant',
+    access: 'owner',
+    response: 'Message',
+  },
+
+  // Subjects
+  {
+    method: 'post',
+    path: '/api/admin/subjects',
+    tag: 'Subjects',
+    summary: 'Create a subject',
+    access: 'owner',
+    body: 'SubjectInput',
+    response: 'Created',
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/api/admin/subjects/order',
+    tag: 'Subjects',
+    summary: 'Set the order of all subjects',
+    access: 'owner',
+    body: 'OrderInput',
+    response: 'Ranks',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/subjects/:id',
+    tag: 'Subjects',
+    summary: 'Rename a subject',
+    access: 'editor',
+    body: 'SubjectInput',
+    response: 'Renamed',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/subjects/reorder',
+    tag: 'Subjects',
+    summary: 'Move a subject next to another',
+    access: 'owner',
+    body: 'ReorderInput',
+    response: 'Reordered',
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/subjects/rebalance',
+    tag: 'Subjects',
+    summary: 'Respace all subject ranks',
+    access: 'owner',
+    response: 'Rebalanced',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/subjects/:id/topics/rebalance',
+    tag: 'Subjects',
+    summary: 'Respace the topic ranks of a subject',
+    access: 'editor',
+    response: 'Rebalanced',
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/subjects/:id',
+    tag: 'Subjects',
+    summary: 'Move a subject to the trash with its topics and articles',
+    access: 'owner',
+    response: 'Trashed',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/subjects/:id/restore',
+    tag: 'Subjects',
+    summary: 'Restore a subject from the trash',
+    access: 'owner',
+    response: 'Restored',
+  },
+
+  // Topics
+  {
+    method: 'post',
+    path: '/api/admin/topics',
+    tag: 'Topics',
+    summary: 'Create a topic',
+    access: 'editor',
+    body: 'TopicInput',
+    response: 'Created',
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/api/admin/topics/order',
+    tag: 'Topics',
+    summary: 'Set the order of all topics of a subject',
+    access: 'editor',
+    body: 'TopicOrderInput',
+    response: 'Ranks',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/topics/:id',
+    tag: 'Topics',
+    summary: 'Update a topic',
+    access: 'editor',
+    body: 'TopicInput',
+    response: 'Renamed',
+    description: '`subjectId` must be the current subject; moves go through `/move`.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/topics/reorder',
+    tag: 'Topics',
+    summary: 'Move a topic next to another',
+    access: 'editor',
+    body: 'ReorderInput',
+    response: 'Reordered',
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/topics/:id/move',
+    tag: 'Topics',
+    summary: 'Move a topic to another subject',
+    access: 'editor',
+    body: 'TopicMoveInput',
+    response: 'TopicMoved',
+    description: 'Without `afterId`/`beforeId` the topic goes last. The old slug redirects.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/topics/:id/articles/rebalance',
+    tag: 'Topics',
+    summary: 'Respace the article ranks of a topic',
+    access: 'editor',
+    response: 'Rebalanced',
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/topics/:id',
+    tag: 'Topics',
+    summary: 'Move a topic to the trash with its articles',
+    access: 'editor',
+    response: 'Trashed',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/topics/:id/restore',
+    tag: 'Topics',
+    summary: 'Restore a topic from the trash',
+    access: 'editor',
+    response: 'Restored',
+    errors: [409],
+  },
+
+  // Articles
+  {
+    method: 'get',
+    path: '/api/admin/articles',
+    tag: 'Articles',
+    summary: 'List articles in every status',
+    access: 'viewer',
+    query: ArticleListQuerySchema,
+    response: 'AdminArticle',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/articles',
+    tag: 'Articles',
+    summary: 'Create an article',
+    access: 'author',
+    body: 'ArticleInput',
+    response: 'ArticleCreated',
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/api/admin/articles/order',
+    tag: 'Articles',
+    summary: 'Set the order of all articles of a topic',
+    access: 'editor',
+    body: 'ArticleOrderInput',
+    response: 'Ranks',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/articles/:id',
+    tag: 'Articles',
+    summary: 'Update an article and its content',
+    access: 'author',
+    body: 'ArticleInput',
+    response: 'Renamed',
+    description:
+      '`topicId` must be the current topic; moves go through `/move`. Published articles need the editor role.',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/articles/:id/revisions',
+    tag: 'Articles',
+    summary: "List the revisions of an article's content",
+    access: 'viewer',
+    query: RevisionListQuerySchema,
+    response: 'Revision',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/articles/:id/revisions/:sha',
+    tag: 'Articles',
+    summary: "Get an article's content at a revision",
+    access: 'viewer',
+    response: 'RevisionContent',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/articles/:id/revisions/:sha/restore',
+    tag: 'Articles',
+    summary: 'Write an old revision back as a new one',
+    access: 'author',
+    response: 'RevisionRestored',
+    errors: [422],
+    description: 'Published articles need the editor role.',
+  },
+  {
+    method: 'put',
+    path: '/api/admin/articles/:id/status',
+    tag: 'Articles',
+    summary: "Change an article's status",
+    access: 'author',
+    body: 'ArticleStatusInput',
+    response: 'StatusChanged',
+    errors: [409],
+    description: 'Publishing, archiving and unpublishing need the editor role.',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/articles/reorder',
+    tag: 'Articles',
+    summary: 'Move an article next to another',
+    access: 'editor',
+    body: 'ReorderInput',
+    response: 'Reordered',
+    errors: [404],
+  },
+  {
+    method: 'post',
+    path: '/api/admin/articles/:id/move',
+    tag: 'Articles',
+    summary: 'Move an article to another topic',
+    access: 'editor',
+    body: 'ArticleMoveInput',
+    response: 'ArticleMoved',
+    description: 'Without `afterId`/`beforeId` the article goes last. The old slug redirects.',
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/articles/:id',
+    tag: 'Articles',
+    summary: 'Move an article to the trash',
+    access: 'editor',
+    response: 'Trashed',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/articles/:id/restore',
+    tag: 'Articles',
+    summary: 'Restore an article from the trash',
+    access: 'editor',
+    response: 'Restored',
+    errors: [409],
+  },
+
+  // Maintenance
+  {
+    method: 'get',
+    path: '/api/admin/trash',
+    tag: 'Maintenance',
+    summary: 'List the trash',
+    access: 'editor',
+    response: 'TrashItem',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/trash/purge',
+    tag: 'Maintenance',
+    summary: 'Permanently delete what is in the trash',
+    access: 'owner',
+    query: TrashPurgeQuerySchema,
+    response: 'TrashPurged',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/audit',
+    tag: 'Maintenance',
+    summary: 'List audit log entries, newest first',
+    access: 'owner',
+    query: AuditQuerySchema,
+    response: 'AuditPage',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/outbox',
+    tag: 'Maintenance',
+    summary: 'List content outbox entries',
+    access: 'owner',
+    query: OutboxQuerySchema,
+    response: 'OutboxEntry',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/outbox/process',
+    tag: 'Maintenance',
+    summary: 'Process pending outbox entries',
+    access: 'owner',
+    response: 'OutboxSummary',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/outbox/:id/retry',
+    tag: 'Maintenance',
+    summary: 'Retry a failed outbox entry',
+    access: 'owner',
+    response: 'OutboxOutcome',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/reconcile',
+    tag: 'Maintenance',
+    summary: 'Compare the articles table with the content store',
+    access: 'owner',
+    response: 'ReconcileReport',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/reconcile/repair',
+    tag: 'Maintenance',
+    summary: 'Repair the drift found by reconcile',
+    access: 'owner',
+    body: 'RepairInput',
+    response: 'RepairResult',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/search/reindex',
+    tag: 'Maintenance',
+    summary: 'Rebuild the search index',
+    access: 'owner',
+    response: 'Reindexed',
+  },
+  {
+    method: 'get',
+    path: '/api/admin/export',
+    tag: 'Maintenance',
+    summary: 'Export the curriculum as a bundle',
+    access: 'owner',
+    response: 'Bundle',
+  },
+  {
+    method: 'post',
+    path: '/api/admin/import',
+    tag: 'Maintenance',
+    summary: 'Import a bundle',
+    access: 'owner',
+    query: ImportQuerySchema,
+    body: 'BundleInput',
+    response: 'ImportResult',
+    description: 'Replace mode also empties the trash; `purged` counts the rows removed from it.',
+  },
+];
+
+// Routes whose success response is a list of the model
+const LISTS = new Set([
+  'GET /api/tree',
+  'GET /api/admin/sessions',
+  'GET /api/admin/users',
+  'GET /api/admin/users/:id/grants',
+  'GET /api/admin/articles',
+  'GET /api/admin/articles/:id/revisions',
+  'GET /api/admin/trash',
+  'GET /api/admin/outbox',
+]);
+
+// --- Document ---
+
+const ERROR_RESPONSES: Record<ErrorStatus, [name: string, description: string]> = {
+  400: ['BadRequest', 'Malformed request, e.g. a body that is not JSON'],
+  401: ['Unauthorized', 'Missing, invalid or expired credentials'],
+  403: ['Forbidden', "The caller's role is not high enough"],
+  404: ['NotFound', 'No such record'],
+  409: ['Conflict', 'Conflicts with the current state, e.g. a duplicate'],
+  422: ['ValidationFailed', 'The request failed validation or names a missing record'],
+  429: ['RateLimited', 'Too many requests'],
+  500: ['InternalError', 'Unexpected failure'],
+  503: ['Unavailable', 'Not configured on this deployment'],
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Named schemas under #/components/schemas, without the draft markers zod adds
+const componentSchemas = (schemas: Record<string, z.ZodType>, io: 'input' | 'output') => {
+  const registry = z.registry<{ id: string }>();
+  for (const [name, schema] of Object.entries(schemas)) registry.add(schema, { id: name });
+  const { schemas: converted } = z.toJSONSchema(registry, {
+    io,
+    unrepresentable: 'any',
+    uri: (name) => `#/components/schemas/${name}`,
+  });
+  return Object.fromEntries(
+    Object.entries(converted).map(([name, { $schema, $id, ...schema }]) => [name, schema])
+  );
+};
+
+// Hono's `:param` segments as OpenAPI's `{param}`
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+const pathParameters = (path: string) =>
+  [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    // Slugs, commit shas and session ids are strings, the rest row ids
+    schema:
+      name.endsWith('Slug') || name === 'sha' || path.startsWith('/api/admin/sessions/')
+        ? { type: 'string' }
+        : { type: 'integer' },
+  }));
+
+const queryParameters = (query: z.ZodObject) => {
+  const schema = z.toJSONSchema(query, {
+    io: 'input',
+    unrepresentable: 'any',
+    // Coerced dates arrive as text, e.g. 2025-01-31 or an ISO timestamp
+    override: ({ zodSchema, jsonSchema }) => {
+      if (zodSchema._zod.def.type === 'date') Object.assign(jsonSchema, { type: 'string' });
+    },
+  });
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.has(name),
+    schema: property,
+  }));
+};
+
+// Error statuses a route can answer besides its own `errors`
+const impliedErrors = (route: RouteDoc) => {
+  const statuses = new Set<ErrorStatus>(route.errors);
+  if (route.body) statuses.add(400);
+  if (route.access !== 'public') statuses.add(401);
+  if (route.access !== 'public' && route.access !== 'session') statuses.add(403);
+  if (route.path.includes(':')) statuses.add(404);
+  if (route.query || route.body) statuses.add(422);
+  if (route.path.startsWith('/api/')) statuses.add(429);
+  statuses.add(500);
+  return [...statuses].sort();
+};
+
+const operation = (route: RouteDoc) => {
+  const { method, path, tag, summary, access, query, body, response, status = 200 } = route;
+  const list = LISTS.has(`${method.toUpperCase()} ${path}`);
+  const content =
+    route.content ??
+    (response
+      ? { 'application/json': list ? { type: 'array', items: ref(response) } : ref(response) }
+      : {});
+
+  const responses: Record<string, object> = {
+    [status]: {
+      description: 'Success',
+      content: Object.fromEntries(
+        Object.entries(content).map(([type, schema]) => [type, { schema }])
+      ),
+    },
+  };
+  for (const [code, description] of Object.entries(route.extra ?? {})) {
+    responses[code] = { description };
+  }
+  for (const code of impliedErrors(route)) {
+    responses[code] = { $ref: `#/components/responses/${ERROR_RESPONSES[code][0]}` };
+  }
+
+  const role = access === 'public' || access === 'session' ? null : access;
+  return {
+    tags: [tag],
+    summary,
+    operationId: `${method} ${path}`,
+    ...((route.description || role) && {
+      description: [route.description, role && `Requires the **${role}** role.`]
+        .filter(Boolean)
+        .join('\n\n'),
+    }),
+    ...(access !== 'public' && { security: [{ cookieAuth: [] }] }),
+    ...(path.startsWith('/webhooks/') && { security: [{ githubSignature: [] }] }),
+    ...(role && { 'x-required-role': role }),
+    parameters: [...pathParameters(path), ...(query ? queryParameters(query) : [])],
+    ...(body && {
+      requestBody: { required: true, content: { 'application/json': { schema: ref(body) } } },
+    }),
+    responses,
+  };
+};
+
+export const buildOpenApiDocument = () => {
+  const paths: Record<string, Record<string, object>> = {};
+  for (const route of ROUTES) {
+    const operations = (paths[toOpenApiPath(route.path)] ??= {});
+    operations[route.method] = operation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Bodhak API',
+      version: '1.0.0',
+      description:
+        'Public read routes for the curriculum and the admin routes behind a session. ' +
+        'Every error response has the `Error` shape and the request id in `X-Request-Id`.',
+    },
+    tags: [...new Set(ROUTES.map((route) => route.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: { ...componentSchemas(MODELS, 'output'), ...componentSchemas(BODIES, 'input') },
+      responses: Object.fromEntries(
+        Object.entries(ERROR_RESPONSES).map(([code, [name, description]]) => [
+          name,
+          {
+            description,
+            content: {
+              'application/json': { schema: ref(code === '422' ? 'ValidationError' : 'Error') },
+            },
+          },
+        ])
+      ),
+      securitySchemes: {
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'token',
+          description: 'Access token set by POST /api/admin/login and /api/admin/refresh',
+        },
+        githubSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Hub-Signature-256',
+          description: 'HMAC-SHA256 of the body with the webhook secret',
+        },
+      },
+    },
+  };
+};
+
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+// Built on first use and kept for the life of the isolate
+export const getOpenApiDocument = () => (document ??= buildOpenApiDocument());
+
+// Swagger UI for GET /docs, loaded from a CDN. The version is pinned and the
+// hashes are of that release's files, so a changed file is refused by the
+// browser; bump all three together.
+const SWAGGER_UI = 'https://unpkg.com/swagger-ui-dist@5.33.0';
+const SWAGGER_UI_CSS_SRI =
+  'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW';
+const SWAGGER_UI_JS_SRI = 'sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf';
+
+export const docsPage = (specUrl: string) => `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Bodhak API</title>
+  <link
+    rel="stylesheet"
+    href="${SWAGGER_UI}/swagger-ui.css"
+    integrity="${SWAGGER_UI_CSS_SRI}"
+    crossorigin="anonymous"
+  />
+</head>
+<body>
+  <div id="docs"></div>
+  <script
+    src="${SWAGGER_UI}/swagger-ui-bundle.js"
+    integrity="${SWAGGER_UI_JS_SRI}"
+    crossorigin="anonymous"
+  ></script>
+  <script>
+    SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#docs' });
+  </script>
+</body>
+</html>
+`;
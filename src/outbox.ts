@@ -0,0 +1,304 @@
+// src/outbox.ts
+import { getContentStore } from './contentStore';
+import { indexArticleBody } from './search';
+import { OutboxEntry, OutboxKind } from './types';
+
+// Article writes touch two systems: the metadata row in D1 and the content in
+// the ContentStore. Each handler changes D1 and records the pending storage
+// operation in `content_outbox` in the same batch, then applies the operation.
+// Failed operations stay in the outbox: the scheduled worker retries them and,
+// once MAX_ATTEMPTS is reached, compensates by rolling the D1 change back.
+
+export const MAX_ATTEMPTS = 5;
+
+// An entry still marked `processing` after this long belongs to an invocation
+// that died half-way and may be picked up again.
+const STALE_AFTER_MS = 5 * 60 * 1000;
+// Finished entries are kept for this long for troubleshooting.
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+interface EnqueueInput {
+  kind: OutboxKind;
+  path: string;
+  message: string;
+  content?: string;
+  // Article id; omit it to use the row inserted just before in the same batch
+  articleId?: number | string;
+  // Column values that undo the D1 change (article_update only), out of
+  // ROLLBACK_COLUMNS
+  rollback?: Record<string, unknown>;
+}
+
+// Returns the INSERT for an outbox entry, to be run in the same `batch()` as
+// the D1 change it belongs to. The statement returns the new entry id.
+export const enqueue = (env: Env, input: EnqueueInput) =>
+  env.bodhak
+    .prepare(
+      `INSERT INTO content_outbox (kind, article_id, path, content, message, rollback)
+       VALUES (?, COALESCE(?, last_insert_rowid()), ?, ?, ?, ?) RETURNING id`
+    )
+    .bind(
+      input.kind,
+      input.articleId ?? null,
+      input.path,
+      input.content ?? null,
+      input.message,
+      input.rollback ? JSON.stringify(input.rollback) : null
+    );
+
+// Queues the removal of the content of every article matching `where` (a SQL
+// condition on `articles`). Run it in the same batch as, and before, the
+// statement that deletes the rows. Returns the new entry ids and their article ids.
+export const enqueueArticleDeletes = (
+  env: Env,
+  message: string,
+  where: string,
+  ...params: unknown[]
+) =>
+  env.bodhak
+    .prepare(
+      `INSERT INTO content_outbox (kind, article_id, path, message)
+       SELECT 'article_delete', id, file_path, ? FROM articles WHERE ${where}
+       RETURNING id, article_id`
+    )
+    .bind(message, ...params);
+
+// Applies the storage side of an entry. Must be safe to repeat: a retry may
+// follow an attempt that reached the store but failed to record success.
+const apply = async (env: Env, entry: OutboxEntry) => {
+  const store = getContentStore(env);
+  switch (entry.kind) {
+    case 'article_create':
+      if (!(await store.update(entry.path, entry.content ?? '', entry.message))) {
+        await store.create(entry.path, entry.content ?? '', entry.message);
+      }
+      return;
+    case 'article_update':
+      if (!(await store.update(entry.path, entry.content ?? '', entry.message))) {
+        throw new Error(`Content file not found: ${entry.path}`);
+      }
+      return;
+    case 'article_delete':
+      await store.delete(entry.path, entry.message);
+      return;
+  }
+};
+
+// Brings the search index up to date with content that has just been written
+const indexEntries = async (env: Env, entries: OutboxEntry[]) => {
+  const statements = entries
+    .filter((entry) => entry.kind !== 'article_delete' && entry.article_id !== null)
+    .map((entry) => indexArticleBody(env, entry.article_id as number, entry.content ?? ''));
+  if (statements.length) await env.bodhak.batch(statements);
+};
+
+// Article columns an article_update rollback may restore. A null slug keeps
+// the current one.
+const ROLLBACK_COLUMNS = ['title', 'topic_id', 'slug', 'status', 'published_at'] as const;
+
+// Undoes the D1 side of an entry. Returns false when there is nothing safe to
+// undo; the entry is then left as `failed` for someone to look at.
+const compensate = async (env: Env, entry: OutboxEntry) => {
+  const db = env.bodhak;
+  switch (entry.kind) {
+    case 'article_create':
+      await db.prepare('DELETE FROM articles WHERE id = ?').bind(entry.article_id).run();
+      return true;
+    case 'article_update': {
+      // A later write for the same article has already superseded this one
+      const newer = await db
+        .prepare('SELECT id FROM content_outbox WHERE article_id = ? AND kind = ? AND id > ?')
+        .bind(entry.article_id, entry.kind, entry.id)
+        .first();
+      if (newer || !entry.rollback) return false;
+      const rollback: Record<string, unknown> = JSON.parse(entry.rollback);
+      const columns = ROLLBACK_COLUMNS.filter((column) => column in rollback);
+      if (!columns.length) return false;
+      const assignments = columns.map((column) =>
+        column === 'slug' ? 'slug = COALESCE(?, slug)' : `${column} = ?`
+      );
+      const statements = [
+        db
+          .prepare(`UPDATE articles SET ${assignments.join(', ')} WHERE id = ?`)
+          .bind(...columns.map((column) => rollback[column] ?? null), entry.article_id),
+      ];
+      if (typeof rollback.slug === 'string') {
+        // The redirect renameSlug() left from the restored slug to the article
+        statements.push(
+          db
+            .prepare(
+              `DELETE FROM slug_redirects
+               WHERE kind = 'article' AND scope_id = ? AND old_slug = ? AND target_id = ?`
+            )
+            .bind(rollback.topic_id ?? 0, rollback.slug, entry.article_id)
+        );
+      }
+      await db.batch(statements);
+      return true;
+    }
+    case 'article_delete':
+      // The row is gone and the file removal is idempotent: keep retrying
+      return false;
+  }
+};
+
+const finish = (env: Env, id: number, state: OutboxEntry['state'], error: string | null) =>
+  env.bodhak
+    .prepare(
+      `UPDATE content_outbox SET state = ?, last_error = ?, updated_at = ${NOW} WHERE id = ?`
+    )
+    .bind(state, error, id)
+    .run();
+
+// Claims and processes one entry. With `compensateOnFailure` (used by the
+// request handlers) a failed attempt is rolled back straight away so the
+// client's error means "nothing changed"; otherwise the entry goes back to
+// `pending` until it runs out of attempts. Only a failed storage write is
+// compensated: once the content is stored, a failure in the follow-up work
+// (search index, marking the entry done) leaves the entry `pending` to be
+// retried, whatever the options.
+export const processOutboxEntry = async (
+  env: Env,
+  id: number,
+  { compensateOnFailure = false } = {}
+): Promise<{ state: OutboxEntry['state']; error: string | null }> => {
+  const entry = await env.bodhak
+    .prepare(
+      `UPDATE content_outbox SET state = 'processing', attempts = attempts + 1, updated_at = ${NOW}
+       WHERE id = ? AND (state = 'pending' OR (state = 'processing' AND updated_at < ?))
+       RETURNING *`
+    )
+    .bind(id, new Date(Date.now() - STALE_AFTER_MS).toISOString())
+    .first<OutboxEntry>();
+  if (!entry) return { state: 'processing', error: 'Entry is not pending' };
+
+  try {
+    await apply(env, entry);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+
+    const giveUp =
+      entry.kind === 'article_delete'
+        ? entry.attempts >= MAX_ATTEMPTS
+        : compensateOnFailure || entry.attempts >= MAX_ATTEMPTS;
+    if (!giveUp) {
+      await finish(env, entry.id, 'pending', error);
+      return { state: 'pending', error };
+    }
+
+    const state = (await compensate(env, entry)) ? 'compensated' : 'failed';
+    await finish(env, entry.id, state, error);
+    return { state, error };
+  }
+
+  try {
+    await indexEntries(env, [entry]);
+    await finish(env, entry.id, 'done', null);
+    return { state: 'done', error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    // If even this fails the entry stays `processing` until it goes stale
+    await finish(env, entry.id, 'pending', error).catch(() => undefined);
+    return { state: 'pending', error };
+  }
+};
+
+// Claims several entries and applies them with a single ContentStore.batch()
+// call, so a bulk operation becomes one commit instead of one per file. When
+// the batch fails the entries go back to `pending`; the scheduled worker then
+// retries them one at a time, compensating as usual.
+export const processOutboxBatch = async (
+  env: Env,
+  ids: number[],
+  message: string
+): Promise<{ state: OutboxEntry['state']; error: string | null }> => {
+  if (!ids.length) return { state: 'done', error: null };
+
+  const { results: entries } = await env.bodhak
+    .prepare(
+      `UPDATE content_outbox SET state = 'processing', attempts = attempts + 1, updated_at = ${NOW}
+       WHERE id IN (SELECT value FROM json_each(?))
+         AND (state = 'pending' OR (state = 'processing' AND updated_at < ?))
+       RETURNING *`
+    )
+    .bind(JSON.stringify(ids), new Date(Date.now() - STALE_AFTER_MS).toISOString())
+    .all<OutboxEntry>();
+
+  const finishAll = (state: OutboxEntry['state'], error: string | null) =>
+    env.bodhak
+      .prepare(
+        `UPDATE content_outbox SET state = ?, last_error = ?, updated_at = ${NOW}
+         WHERE id IN (SELECT value FROM json_each(?))`
+      )
+      .bind(state, error, JSON.stringify(entries.map((entry) => entry.id)))
+      .run();
+
+  try {
+    await getContentStore(env).batch(
+      entries.map((entry) => ({
+        path: entry.path,
+        content: entry.kind === 'article_delete' ? null : (entry.content ?? ''),
+      })),
+      message
+    );
+    await indexEntries(env, entries);
+    await finishAll('done', null);
+    return { state: 'done', error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await finishAll('pending', error);
+    return { state: 'pending', error };
+  }
+};
+
+// Retries every pending entry (and reclaims stale `processing` ones). Runs from
+// the scheduled handler and from the admin "process outbox" route.
+export const processPendingOutbox = async (env: Env, limit = 50) => {
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT id FROM content_outbox
+       WHERE state = 'pending' OR (state = 'processing' AND updated_at < ?)
+       ORDER BY id ASC LIMIT ?`
+    )
+    .bind(new Date(Date.now() - STALE_AFTER_MS).toISOString(), limit)
+    .all<{ id: number }>();
+
+  const summary = { processed: 0, done: 0, pending: 0, compensated: 0, failed: 0 };
+  for (const { id } of results) {
+    const { state } = await processOutboxEntry(env, id);
+    summary.processed++;
+    if (state in summary) summary[state as keyof typeof summary]++;
+  }
+
+  await env.bodhak
+    .prepare(`DELETE FROM content_outbox WHERE state IN ('done', 'compensated') AND updated_at < ?`)
+    .bind(new Date(Date.now() - RETENTION_MS).toISOString())
+    .run();
+
+  return summary;
+};
+
+export const listOutbox = async (env: Env, state?: OutboxEntry['state']) => {
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT id, kind, article_id, path, message, state, attempts, last_error, created_at, updated_at
+       FROM content_outbox WHERE (?1 IS NULL OR state = ?1) ORDER BY id DESC LIMIT 200`
+    )
+    .bind(state ?? null)
+    .all<Omit<OutboxEntry, 'content' | 'rollback'>>();
+  return results;
+};
+
+// Puts a `failed` entry back in the queue with a fresh attempt budget
+export const requeueOutboxEntry = async (env: Env, id: number | string) => {
+  const { meta } = await env.bodhak
+    .prepare(
+      `UPDATE content_outbox SET state = 'pending', attempts = 0, updated_at = ${NOW}
+       WHERE id = ? AND state = 'failed'`
+    )
+    .bind(id)
+    .run();
+  return meta.changes > 0;
+};
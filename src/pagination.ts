@@ -0,0 +1,92 @@
+// src/pagination.ts
+
+// Keyset pagination over rank-ordered lists. The cursor holds the (rank, id)
+// of the last row returned rather than an offset, so a page boundary does not
+// shift when admins insert, delete or reorder rows between requests.
+
+export interface PageQuery {
+  limit: number;
+  cursor?: { rank: string; id: number };
+  // Case-insensitive substring match on `title`
+  title?: string;
+  // Columns to return; all allowed columns when omitted
+  fields?: string[];
+}
+
+export const encodeCursor = (row: { rank: string; id: number }) =>
+  btoa(JSON.stringify([row.rank, row.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+// Returns null for anything that is not a cursor produced by encodeCursor
+export const decodeCursor = (cursor: string) => {
+  try {
+    const [rank, id] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof rank !== 'string' || !Number.isInteger(id)) return null;
+    return { rank, id: id as number };
+  } catch {
+    return null;
+  }
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+
+// Runs one page of `SELECT <columns> FROM <table> WHERE <where>` ordered by
+// rank. `table`, `where` and `columns` come from the route, never from the
+// request; request values only reach the query as bound parameters.
+export const listPage = async <T extends object>(
+  db: D1Database,
+  {
+    table,
+    where = [],
+    params = [],
+    columns,
+    computed = {},
+    query,
+  }: {
+    table: string;
+    where?: string[];
+    params?: unknown[];
+    columns: readonly string[];
+    // SQL expressions for the columns that are not stored as such
+    computed?: Record<string, string>;
+    query: PageQuery;
+  }
+) => {
+  const conditions = [...where];
+  const bindings = [...params];
+  if (query.title) {
+    conditions.push(`title LIKE ? ESCAPE '\\'`);
+    bindings.push(`%${escapeLike(query.title)}%`);
+  }
+  if (query.cursor) {
+    conditions.push('(rank > ? OR (rank = ? AND id > ?))');
+    bindings.push(query.cursor.rank, query.cursor.rank, query.cursor.id);
+  }
+
+  const fields = query.fields?.length ? query.fields : [...columns];
+  // id and rank are always read because the next cursor is built from them
+  const selected = [...new Set(['id', 'rank', ...fields])];
+  const { results } = await db
+    .prepare(
+      `SELECT ${selected.map((f) => (computed[f] ? `${computed[f]} AS ${f}` : f)).join(', ')}
+       FROM ${table}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY rank ASC, id ASC LIMIT ?`
+    )
+    .bind(...bindings, query.limit + 1)
+    .all<T & { id: number; rank: string }>();
+
+  const page = results.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    data: page.map(
+      (row) =>
+        Object.fromEntries(
+          fields.map((field) => [field, (row as Record<string, unknown>)[field]])
+        ) as Partial<T>
+    ),
+    next: results.length > query.limit && last ? encodeCursor(last) : null,
+  };
+};
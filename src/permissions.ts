@@ -0,0 +1,133 @@
+// src/permissions.ts
+import { Context, MiddlewareHandler } from 'hono';
+import { errorResponse } from './errors';
+import { AppEnv, Role, ROLES } from './types';
+
+// Returns the ids of the subjects a request touches. `null` means the action is
+// not tied to a subject (e.g. managing users), so only the global role counts.
+export type ScopeResolver = (c: Context<AppEnv>) => Promise<Array<number | null>>;
+
+export const roleAtLeast = (role: Role, minRole: Role) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(minRole);
+
+const maxRole = (a: Role, b: Role | null) => (b && roleAtLeast(b, a) ? b : a);
+
+// Effective role of a user on a subject: the higher of the global role and the
+// subject grant. Returns null when the account no longer exists or is disabled.
+export const getEffectiveRole = async (
+  env: Env,
+  userId: number | string,
+  subjectId: number | null
+) => {
+  const row = await env.bodhak
+    .prepare(
+      `SELECT u.role, u.disabled, g.role AS grant_role FROM users u
+       LEFT JOIN subject_grants g ON g.user_id = u.id AND g.subject_id = ?
+       WHERE u.id = ?`
+    )
+    .bind(subjectId, userId)
+    .first<{ role: Role; disabled: number; grant_role: Role | null }>();
+  if (!row || row.disabled) return null;
+  return maxRole(row.role, row.grant_role);
+};
+
+// The 403 response when the caller holds less than `minRole` on the subject,
+// or null when they may go ahead. Routes use it for checks that depend on the
+// row they act on, e.g. an article's status.
+export const checkRole = async (c: Context<AppEnv>, minRole: Role, subjectId: number | null) => {
+  const role = await getEffectiveRole(c.env, c.get('jwtPayload').sub, subjectId);
+  if (!role) {
+    return errorResponse(c, 403, 'Forbidden: account is disabled or no longer exists');
+  }
+  if (!roleAtLeast(role, minRole)) {
+    const where = subjectId === null ? 'globally' : `on subject ${subjectId}`;
+    return errorResponse(c, 403, `Forbidden: requires ${minRole} role ${where}`);
+  }
+  return null;
+};
+
+// Middleware that rejects the request with 403 unless the caller holds at least
+// `minRole` on every subject returned by `scope`. Must run after `jwtAuth`.
+export const authorize =
+  (minRole: Role, scope: ScopeResolver = async () => [null]): MiddlewareHandler<AppEnv> =>
+  async (c, next) => {
+    const subjectIds = await scope(c);
+
+    for (const subjectId of subjectIds.length ? subjectIds : [null]) {
+      const denied = await checkRole(c, minRole, subjectId);
+      if (denied) return denied;
+    }
+
+    await next();
+  };
+
+// --- Scope resolvers ---
+
+const subjectOfTopic = async (env: Env, topicId: unknown) => {
+  const row = await env.bodhak
+    .prepare('SELECT subject_id FROM topics WHERE id = ?')
+    .bind(topicId)
+    .first<{ subject_id: number }>();
+  return row?.subject_id ?? null;
+};
+
+const subjectOfArticle = async (env: Env, articleId: unknown) => {
+  const row = await env.bodhak
+    .prepare(
+      'SELECT t.subject_id FROM articles a JOIN topics t ON t.id = a.topic_id WHERE a.id = ?'
+    )
+    .bind(articleId)
+    .first<{ subject_id: number }>();
+  return row?.subject_id ?? null;
+};
+
+// Reads a field from the JSON body. Hono caches the parsed body, so the
+// validator that runs afterwards can still read it. Malformed bodies resolve to
+// undefined and are rejected by the validator.
+const bodyField = async (c: Context<AppEnv>, field: string) => {
+  try {
+    const body = await c.req.json();
+    return body?.[field] ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const subjectFromParam: ScopeResolver = async (c) => [Number(c.req.param('id'))];
+
+export const subjectFromBody: ScopeResolver = async (c) => {
+  const subjectId = await bodyField(c, 'subjectId');
+  return [subjectId === undefined ? null : Number(subjectId)];
+};
+
+export const subjectOfTopicParam: ScopeResolver = async (c) => [
+  await subjectOfTopic(c.env, c.req.param('id')),
+];
+
+export const subjectOfTopicBody: ScopeResolver = async (c) => [
+  await subjectOfTopic(c.env, await bodyField(c, 'topicId')),
+];
+
+export const subjectOfTopicBodyId: ScopeResolver = async (c) => [
+  await subjectOfTopic(c.env, await bodyField(c, 'id')),
+];
+
+export const subjectOfTopicQuery: ScopeResolver = async (c) => {
+  const topicId = c.req.query('topicId');
+  return [topicId === undefined ? null : await subjectOfTopic(c.env, topicId)];
+};
+
+export const subjectOfArticleParam: ScopeResolver = async (c) => [
+  await subjectOfArticle(c.env, c.req.param('id')),
+];
+
+export const subjectOfArticleBodyId: ScopeResolver = async (c) => [
+  await subjectOfArticle(c.env, await bodyField(c, 'id')),
+];
+
+// Combines resolvers, e.g. to check both the current and the target subject
+// when an item is moved.
+export const allOf =
+  (...resolvers: ScopeResolver[]): ScopeResolver =>
+  async (c) =>
+    (await Promise.all(resolvers.map((resolve) => resolve(c)))).flat();
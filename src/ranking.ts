@@ -0,0 +1,293 @@
+// src/ranking.ts
+import { LexoRank } from '@dalet-oss/lexorank';
+
+// Ordering of subjects, topics and articles within their parent. Reorders name
+// the neighbours by id, and those are checked against the item's actual
+// siblings, so a client can no longer place an item using ranks from another
+// list. When no usable rank fits between the neighbours (it would be too long,
+// the neighbours share a rank, or a rank is not a LexoRank) the whole list is
+// rewritten with evenly spaced ranks instead.
+//
+// Rows in the trash (src/trash.ts) cannot be named as neighbours, but they keep
+// their place in the list: new ranks never collide with theirs, and a rebalance
+// keeps each of them right after the live row it followed.
+
+export type RankedKind = 'subject' | 'topic' | 'article';
+
+const LISTS: Record<RankedKind, { table: string; parent: string | null }> = {
+  subject: { table: 'subjects', parent: null },
+  topic: { table: 'topics', parent: 'subject_id' },
+  article: { table: 'articles', parent: 'topic_id' },
+};
+
+// Ranks grow by a character every few inserts between the same two items;
+// past this length the list is rebalanced rather than the rank stored
+export const MAX_RANK_LENGTH = 32;
+
+export interface RankedRow {
+  id: number;
+  rank: string;
+  // Set for rows in the trash
+  trashed?: number | boolean;
+}
+
+// Rank for an item placed before `beforeRank` and/or after `afterRank`
+export const calculateNewRank = (
+  beforeRank: string | undefined,
+  afterRank: string | undefined
+): LexoRank | undefined => {
+  const rankBefore = beforeRank ? LexoRank.parse(beforeRank) : null;
+  const rankAfter = afterRank ? LexoRank.parse(afterRank) : null;
+
+  if (rankBefore && rankAfter) {
+    return rankBefore.between(rankAfter);
+  } else if (rankBefore) {
+    return rankBefore.genPrev();
+  } else if (rankAfter) {
+    return rankAfter.genNext();
+  }
+  return undefined;
+};
+
+// Rank strictly between two neighbours (either may be missing), or null when
+// the list needs a rebalance first
+export const rankBetween = (prev?: string, next?: string) => {
+  if (prev !== undefined && prev === next) return null;
+  try {
+    const rank = calculateNewRank(next, prev)?.toString();
+    if (!rank || rank.length > MAX_RANK_LENGTH) return null;
+    if ((prev !== undefined && rank <= prev) || (next !== undefined && rank >= next)) return null;
+    return rank;
+  } catch {
+    return null;
+  }
+};
+
+// `count` ranks spaced by LexoRank's default step and centred on the middle
+export const evenRanks = (count: number) => {
+  let rank = LexoRank.middle();
+  for (let i = 0; i < Math.floor(count / 2); i++) rank = rank.genPrev();
+  const ranks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    ranks.push(rank.toString());
+    rank = rank.genNext();
+  }
+  return ranks;
+};
+
+// Where `id` goes among its siblings. `afterId`/`beforeId` name the sibling it
+// should follow/precede; given both, they must be next to each other. With
+// only one, the other neighbour is whatever currently sits on that side; with
+// neither, the item goes last.
+export const planReorder = (
+  siblings: RankedRow[],
+  id: number,
+  { afterId, beforeId }: { afterId?: number; beforeId?: number }
+) => {
+  const item = siblings.find((row) => row.id === id);
+  if (!item) return { error: 'Item not found.' };
+  if (afterId === id || beforeId === id)
+    return { error: 'An item cannot be placed next to itself' };
+
+  const others = siblings.filter((row) => row.id !== id);
+  const indexOf = (neighbourId: number | undefined) =>
+    neighbourId === undefined ? undefined : others.findIndex((row) => row.id === neighbourId);
+  const afterIndex = indexOf(afterId);
+  const beforeIndex = indexOf(beforeId);
+  if (afterIndex === -1) return { error: `Item ${afterId} is not a sibling of item ${id}` };
+  if (beforeIndex === -1) return { error: `Item ${beforeId} is not a sibling of item ${id}` };
+
+  let position: number;
+  if (afterIndex !== undefined && beforeIndex !== undefined) {
+    if (beforeIndex !== afterIndex + 1) {
+      return { error: `Items ${afterId} and ${beforeId} are not adjacent` };
+    }
+    position = beforeIndex;
+  } else if (afterIndex !== undefined) {
+    position = afterIndex + 1;
+  } else if (beforeIndex !== undefined) {
+    position = beforeIndex;
+  } else {
+    position = others.length;
+  }
+
+  return {
+    item,
+    prev: others[position - 1] as RankedRow | undefined,
+    next: others[position] as RankedRow | undefined,
+    order: [...others.slice(0, position), item, ...others.slice(position)],
+  };
+};
+
+// Every child of `parentId`, trashed ones included
+const listSiblings = async (env: Env, kind: RankedKind, parentId: number | null) => {
+  const { table, parent } = LISTS[kind];
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT id, rank, deleted_at IS NOT NULL AS trashed FROM ${table}
+       WHERE ${parent ? `${parent} IS ?` : '? IS NULL'}
+       ORDER BY rank ASC, id ASC`
+    )
+    .bind(parentId)
+    .all<RankedRow>();
+  return results;
+};
+
+// `order` (live rows) with the trashed rows of `siblings` put back in, each
+// right after the live row it followed in `siblings`
+export const withTrashed = (siblings: RankedRow[], order: RankedRow[]) => {
+  const followers = new Map<number | null, RankedRow[]>();
+  let lead: number | null = null;
+  for (const row of siblings) {
+    if (!row.trashed) {
+      lead = row.id;
+      continue;
+    }
+    const group = followers.get(lead);
+    if (group) group.push(row);
+    else followers.set(lead, [row]);
+  }
+  return [
+    ...(followers.get(null) ?? []),
+    ...order.flatMap((row) => [row, ...(followers.get(row.id) ?? [])]),
+  ];
+};
+
+// Statements that rewrite the ranks of `order` evenly. Every row first gets a
+// temporary rank so no update collides with a rank another row still holds
+// (subjects.rank is UNIQUE).
+const orderStatements = (env: Env, kind: RankedKind, order: RankedRow[]) => {
+  const { table } = LISTS[kind];
+  const ranks = evenRanks(order.length);
+  const pairs = JSON.stringify(order.map((row, i) => [row.id, ranks[i]]));
+  const statements = [
+    env.bodhak
+      .prepare(
+        `UPDATE ${table} SET rank = 'rebalance:' || id
+         WHERE id IN (SELECT value ->> 0 FROM json_each(?))`
+      )
+      .bind(pairs),
+    env.bodhak
+      .prepare(
+        `UPDATE ${table}
+         SET rank = (SELECT p.value ->> 1 FROM json_each(?1) p WHERE p.value ->> 0 = ${table}.id)
+         WHERE id IN (SELECT value ->> 0 FROM json_each(?1))`
+      )
+      .bind(pairs),
+  ];
+  return { statements, ranks };
+};
+
+const applyOrder = async (env: Env, kind: RankedKind, order: RankedRow[]) => {
+  const { statements, ranks } = orderStatements(env, kind, order);
+  await env.bodhak.batch(statements);
+  return ranks;
+};
+
+// Places an item among the children of `parentId`, moving it there first when
+// `move` is set. Everything, including `statements`, runs in one batch.
+const placeItem = async (
+  env: Env,
+  kind: RankedKind,
+  id: number,
+  parentId: number | null,
+  neighbours: { afterId?: number; beforeId?: number },
+  { move = false, statements = [] }: { move?: boolean; statements?: D1PreparedStatement[] } = {}
+) => {
+  const { table, parent } = LISTS[kind];
+  const row = await env.bodhak
+    .prepare(`SELECT rank FROM ${table} WHERE id = ?`)
+    .bind(id)
+    .first<{ rank: string }>();
+  if (!row) return { error: 'Item not found.', status: 404 as const };
+
+  const siblings = (await listSiblings(env, kind, parentId)).filter((r) => r.id !== id);
+  const live = siblings.filter((r) => !r.trashed);
+  const plan = planReorder([...live, { id, rank: row.rank }], id, neighbours);
+  if ('error' in plan) return { error: plan.error, status: 422 as const };
+  const position = plan.order.indexOf(plan.item);
+  // The rank has to fit between the item's neighbours in the full list
+  const order = withTrashed(siblings, plan.order);
+  const at = order.indexOf(plan.item);
+
+  const update = (rank: string) =>
+    move
+      ? env.bodhak
+          .prepare(`UPDATE ${table} SET ${parent} = ?, rank = ? WHERE id = ?`)
+          .bind(parentId, rank, id)
+      : env.bodhak.prepare(`UPDATE ${table} SET rank = ? WHERE id = ?`).bind(rank, id);
+
+  const rank = rankBetween(order[at - 1]?.rank, order[at + 1]?.rank);
+  if (rank) {
+    await env.bodhak.batch([update(rank), ...statements]);
+    return { rank, position, rebalanced: false };
+  }
+  // No rank fits: the placement and a rebalance of the list land together
+  const rebalance = orderStatements(env, kind, order);
+  await env.bodhak.batch([update(`rebalance:${id}`), ...rebalance.statements, ...statements]);
+  return { rank: rebalance.ranks[at], position, rebalanced: true };
+};
+
+// Moves an item next to the given siblings. Returns `error` with the HTTP
+// status to answer when the item does not exist or the neighbours are invalid.
+export const reorderItem = async (
+  env: Env,
+  kind: RankedKind,
+  id: number,
+  neighbours: { afterId?: number; beforeId?: number }
+) => {
+  const { table, parent } = LISTS[kind];
+  const row = await env.bodhak
+    .prepare(`SELECT ${parent ?? 'NULL'} AS parent_id FROM ${table} WHERE id = ?`)
+    .bind(id)
+    .first<{ parent_id: number | null }>();
+  if (!row) return { error: 'Item not found.', status: 404 as const };
+  return placeItem(env, kind, id, row.parent_id, neighbours);
+};
+
+// Moves a topic to another subject or an article to another topic, placed as
+// in reorderItem (last when no neighbour is given). `statements` run in the
+// same batch after the move, e.g. to update the slug.
+export const moveItem = (
+  env: Env,
+  kind: 'topic' | 'article',
+  id: number,
+  parentId: number,
+  neighbours: { afterId?: number; beforeId?: number },
+  statements: D1PreparedStatement[] = []
+) => placeItem(env, kind, id, parentId, neighbours, { move: true, statements });
+
+// Rewrites the ranks of every item under `parentId` (null for subjects)
+// evenly, keeping their order. Returns the number of items.
+export const rebalanceRanks = async (env: Env, kind: RankedKind, parentId: number | null) => {
+  const siblings = await listSiblings(env, kind, parentId);
+  if (siblings.length) await applyOrder(env, kind, siblings);
+  return siblings.length;
+};
+
+// Puts the children of `parentId` (null for subjects) in the order of `ids`,
+// which must list every child exactly once. Returns the new ranks, or `error`
+// when the list does not match the children.
+export const setOrder = async (
+  env: Env,
+  kind: RankedKind,
+  parentId: number | null,
+  ids: number[]
+) => {
+  const siblings = await listSiblings(env, kind, parentId);
+  const live = siblings.filter((row) => !row.trashed);
+  const byId = new Map(live.map((row) => [row.id, row]));
+  const unknown = ids.filter((id) => !byId.has(id));
+  if (unknown.length) return { error: `Not children of this parent: ${unknown.join(', ')}` };
+  if (new Set(ids).size !== ids.length) return { error: 'The list contains duplicate ids' };
+  const missing = live.filter((row) => !ids.includes(row.id)).map((row) => row.id);
+  if (missing.length) return { error: `The list is missing: ${missing.join(', ')}` };
+
+  const order = withTrashed(
+    siblings,
+    ids.map((id) => byId.get(id) as RankedRow)
+  );
+  const ranks = await applyOrder(env, kind, order);
+  const rankOf = new Map(order.map((row, i) => [row.id, ranks[i]]));
+  return { ranks: ids.map((id) => ({ id, rank: rankOf.get(id) as string })) };
+};
@@ -0,0 +1,126 @@
+// src/reconcile.ts
+import { getContentStore } from './contentStore';
+import { ReconcileReport } from './types';
+
+export const ARTICLES_DIR = 'articles';
+
+interface ArticleRef {
+  id: number;
+  title: string;
+  file_path: string;
+  status: string;
+}
+
+// Compares the `articles` rows with the files in the store. Paths with a
+// pending outbox operation are in the middle of being written or removed and
+// are left out rather than reported as drift.
+export const diffArticles = (
+  rows: ArticleRef[],
+  files: string[],
+  inFlight: Set<string> = new Set()
+): ReconcileReport => {
+  const fileSet = new Set(files);
+  const byPath = new Map<string, ArticleRef[]>();
+  for (const row of rows) {
+    byPath.set(row.file_path, [...(byPath.get(row.file_path) ?? []), row]);
+  }
+
+  return {
+    orphanedFiles: files.filter((path) => !byPath.has(path) && !inFlight.has(path)),
+    missingFiles: rows
+      .filter((row) => !fileSet.has(row.file_path) && !inFlight.has(row.file_path))
+      .map(({ id, title, file_path }) => ({ id, title, file_path })),
+    duplicates: [...byPath.entries()]
+      .filter(([, refs]) => refs.length > 1)
+      .map(([file_path, refs]) => ({ file_path, articleIds: refs.map((r) => r.id) })),
+  };
+};
+
+interface PendingPath {
+  path: string;
+}
+
+const loadState = async (env: Env) => {
+  const [{ results: rows }, { results: pending }] = (await env.bodhak.batch([
+    env.bodhak.prepare('SELECT id, title, file_path, status FROM articles ORDER BY id'),
+    env.bodhak.prepare(
+      "SELECT DISTINCT path FROM content_outbox WHERE state IN ('pending', 'processing')"
+    ),
+  ])) as [D1Result<ArticleRef>, D1Result<PendingPath>];
+  const files = await getContentStore(env).list(ARTICLES_DIR);
+  return { rows, files, inFlight: new Set(pending.map((p) => p.path)) };
+};
+
+export const reconcileArticles = async (env: Env) => {
+  const { rows, files, inFlight } = await loadState(env);
+  return diffArticles(rows, files, inFlight);
+};
+
+// Fixes what can be fixed without losing content:
+// - duplicates: every row but the oldest gets its own copy of the file
+// - missing files: published rows are moved back to draft so learners never
+//   get an article without content
+// - orphaned files: deleted only when `deleteOrphans` is set
+export const repairArticles = async (env: Env, { deleteOrphans = false } = {}) => {
+  const report = await reconcileArticles(env);
+  const store = getContentStore(env);
+  const db = env.bodhak;
+  const repairs = {
+    copied: [] as { id: number; file_path: string }[],
+    unpublished: [] as number[],
+    orphansDeleted: [] as string[],
+    errors: [] as string[],
+  };
+
+  // All copies go into one storage commit, then the rows are repointed
+  const copies: { id: number; file_path: string; content: string }[] = [];
+  for (const { file_path, articleIds } of report.duplicates) {
+    const content = await store.get(file_path);
+    if (content === null) continue; // also listed as missing; handled below
+    for (const id of articleIds.slice(1)) {
+      copies.push({ id, file_path: file_path.replace(/(\.json)?$/, `-copy-${id}.json`), content });
+    }
+  }
+  if (copies.length) {
+    try {
+      await store.batch(
+        copies.map(({ file_path, content }) => ({ path: file_path, content })),
+        `Split ${copies.length} duplicate article files`
+      );
+      await db.batch(
+        copies.map(({ id, file_path }) =>
+          db.prepare('UPDATE articles SET file_path = ? WHERE id = ?').bind(file_path, id)
+        )
+      );
+      repairs.copied = copies.map(({ id, file_path }) => ({ id, file_path }));
+    } catch (err) {
+      repairs.errors.push(`duplicates: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (report.missingFiles.length) {
+    const ids = report.missingFiles.map((m) => m.id);
+    const { results } = await db
+      .prepare(
+        `UPDATE articles SET status = 'draft'
+         WHERE status = 'published' AND id IN (SELECT value FROM json_each(?)) RETURNING id`
+      )
+      .bind(JSON.stringify(ids))
+      .all<{ id: number }>();
+    repairs.unpublished = results.map((r) => r.id);
+  }
+
+  if (deleteOrphans && report.orphanedFiles.length) {
+    try {
+      await store.batch(
+        report.orphanedFiles.map((path) => ({ path, content: null })),
+        `Removed ${report.orphanedFiles.length} orphaned article files`
+      );
+      repairs.orphansDeleted = report.orphanedFiles;
+    } catch (err) {
+      repairs.errors.push(`orphans: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { report, repairs };
+};
@@ -0,0 +1,149 @@
+// src/schemas.ts
+import { z } from 'zod';
+import { ArticleContentSchema, parseArticle } from './articleFormat';
+import { BUNDLE_VERSION } from './bundle';
+import { decodeCursor } from './pagination';
+import { ARTICLE_FORMATS, ARTICLE_STATUSES, IMPORT_MODES, OUTBOX_STATES, ROLES } from './types';
+
+// Request schemas of the routes in src/index.ts. The OpenAPI document
+// (src/openapi.ts) is generated from the same objects.
+
+export const LoginSchema = z.object({ username: z.string(), password: z.string() });
+export const SubjectSchema = z.object({ title: z.string().min(1) });
+export const TopicSchema = z.object({ title: z.string().min(1), subjectId: z.number().int() });
+export const ArticleSchema = z.object({
+  title: z.string().min(1),
+  topicId: z.number().int(),
+  // A block document (see src/articleFormat.ts), as an object or JSON text
+  content: ArticleContentSchema,
+});
+export const UserSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(8),
+  role: z.enum(ROLES).default('viewer'),
+});
+export const PasswordSchema = z.object({ password: z.string().min(8) });
+export const RoleSchema = z.object({ role: z.enum(ROLES) });
+export const RevisionListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+});
+export const ArticleStatusSchema = z.object({ status: z.enum(ARTICLE_STATUSES) });
+export const ArticleListQuerySchema = z.object({
+  status: z.enum(ARTICLE_STATUSES).optional(),
+  topicId: z.coerce.number().int().optional(),
+});
+export const OutboxQuerySchema = z.object({ state: z.enum(OUTBOX_STATES).optional() });
+export const RepairSchema = z.object({ deleteOrphans: z.boolean().default(false) });
+export const BundleArticleSchema = z.object({
+  title: z.string().min(1),
+  rank: z.string().min(1),
+  status: z.enum(ARTICLE_STATUSES).default('draft'),
+  published_at: z.string().nullable().default(null),
+  // Must stay inside the articles directory of the content store, so a name
+  // made only of dots (`.`, `..`) is refused
+  file_path: z.string().regex(/^articles\/(?!\.+$)[\w.-]+$/),
+  // The file as exported: a block document as JSON text
+  content: z
+    .string()
+    .refine((text) => parseArticle(text) !== null, 'Not a valid article document')
+    .nullable(),
+});
+export const BundleSchema = z.object({
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  subjects: z.array(
+    z.object({
+      title: z.string().min(1),
+      rank: z.string().min(1),
+      topics: z.array(
+        z.object({
+          title: z.string().min(1),
+          rank: z.string().min(1),
+          articles: z.array(BundleArticleSchema),
+        })
+      ),
+    })
+  ),
+  unfiledArticles: z.array(BundleArticleSchema).default([]),
+});
+export const ImportQuerySchema = z.object({
+  mode: z.enum(IMPORT_MODES).default('merge'),
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+});
+// Query for the public list routes: ?limit=&cursor=&title=&fields=id,title
+export const pageQuerySchema = <F extends string>(fields: readonly [F, ...F[]]) =>
+  z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const cursor = decodeCursor(value);
+        if (!cursor) ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return cursor ?? undefined;
+      })
+      .optional(),
+    title: z.string().trim().min(1).max(200).optional(),
+    fields: z
+      .string()
+      .transform((value) => value.split(',').map((field) => field.trim()))
+      .pipe(z.array(z.enum(fields)).min(1))
+      .optional(),
+  });
+export const SUBJECT_FIELDS = ['id', 'title', 'slug', 'rank'] as const;
+export const TOPIC_FIELDS = ['id', 'subject_id', 'title', 'slug', 'rank'] as const;
+export const PUBLIC_ARTICLE_FIELDS = [
+  'id',
+  'topic_id',
+  'title',
+  'slug',
+  'rank',
+  'published_at',
+  'content_url',
+] as const;
+export const ContentQuerySchema = z.object({ format: z.enum(ARTICLE_FORMATS).default('json') });
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+// Every child of one parent, in their new order
+export const OrderSchema = z.object({ ids: z.array(z.number().int()).max(1000) });
+export const TopicOrderSchema = OrderSchema.extend({ subjectId: z.number().int() });
+export const ArticleOrderSchema = OrderSchema.extend({ topicId: z.number().int() });
+// `afterId`/`beforeId` name the sibling the item should follow/precede
+export const PlacementSchema = z.object({
+  afterId: z.number().int().optional(),
+  beforeId: z.number().int().optional(),
+});
+export const ReorderSchema = PlacementSchema.extend({ id: z.number().int() }).refine(
+  (body) => body.afterId !== undefined || body.beforeId !== undefined,
+  {
+    message: 'afterId or beforeId is required',
+  }
+);
+// Without a neighbour the item goes last in its new parent
+export const TopicMoveSchema = PlacementSchema.extend({ subjectId: z.number().int() });
+export const ArticleMoveSchema = PlacementSchema.extend({ topicId: z.number().int() });
+// ?userId=&entityType=&entityId=&from=&to= (dates or ISO timestamps; `to` is
+// exclusive)&cursor=&limit=
+export const AuditQuerySchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  from: z.coerce
+    .date()
+    .transform((date) => date.toISOString())
+    .optional(),
+  to: z.coerce
+    .date()
+    .transform((date) => date.toISOString())
+    .optional(),
+  cursor: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+// Without olderThanDays the whole trash is purged
+export const TrashPurgeQuerySchema = z.object({
+  olderThanDays: z.coerce.number().int().min(0).default(0),
+});
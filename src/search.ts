@@ -0,0 +1,146 @@
+// src/search.ts
+import { documentText, escapeHtml, parseArticle } from './articleFormat';
+import { getContentStore } from './contentStore';
+import { SearchResult } from './types';
+
+// The `search_index` FTS5 table holds one row per subject, topic and article.
+// Triggers keep the titles in sync; the article bodies come from the content
+// store and are written here whenever the content changes.
+
+// Text worth indexing from an article file: the text of a block document, or
+// for older files the string values of their JSON (not the keys)
+export const extractText = (content: string): string => {
+  const doc = parseArticle(content);
+  if (doc) return documentText(doc);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return content;
+  }
+  const parts: string[] = [];
+  const walk = (value: unknown) => {
+    if (typeof value === 'string') parts.push(value);
+    else if (Array.isArray(value)) value.forEach(walk);
+    else if (value && typeof value === 'object') Object.values(value).forEach(walk);
+  };
+  walk(parsed);
+  return parts.join('\n');
+};
+
+// Statement that stores an article's content in the index. Can run on its own
+// or as part of a batch.
+export const indexArticleBody = (env: Env, articleId: number | string, content: string) =>
+  env.bodhak
+    .prepare(`UPDATE search_index SET body = ? WHERE kind = 'article' AND ref_id = ?`)
+    .bind(extractText(content), Number(articleId));
+
+// Turns free text into an FTS5 query: every word must match, the last one as
+// a prefix so results show up while the learner is still typing. Quoting each
+// word keeps FTS5 operators in the input from being interpreted.
+export const toMatchQuery = (q: string) => {
+  const words = q.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return words.map((word, i) => `"${word}"${i === words.length - 1 ? '*' : ''}`).join(' ');
+};
+
+// highlight() and snippet() return the stored text as is, which may hold
+// markup of its own. They wrap matches in these control characters instead of
+// <mark>, so the text can be escaped before the tags go in.
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+// Highlighted text from the index as HTML: escaped, with <mark> around matches
+export const markMatches = (text: string) =>
+  escapeHtml(text).replaceAll(MARK_START, '<mark>').replaceAll(MARK_END, '</mark>');
+
+// A match with the subject and topic it sits in (null where there is none)
+interface SearchRow {
+  kind: SearchResult['kind'];
+  id: number;
+  title: string;
+  snippet: string;
+  score: number;
+  subject_id: number | null;
+  subject_title: string | null;
+  topic_id: number | null;
+  topic_title: string | null;
+}
+
+// Searches published articles and every subject and topic, leaving out the
+// trash. Title matches rank above body matches.
+export const searchContent = async (env: Env, q: string, limit = 20) => {
+  const match = toMatchQuery(q);
+  if (!match) return [];
+
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT search_index.kind AS kind, search_index.ref_id AS id,
+              highlight(search_index, 2, ?2, ?3) AS title,
+              snippet(search_index, 3, ?2, ?3, '…', 16) AS snippet,
+              bm25(search_index, 0, 0, 10.0, 1.0) AS score,
+              s.id AS subject_id, s.title AS subject_title,
+              t.id AS topic_id, t.title AS topic_title
+       FROM search_index
+       LEFT JOIN articles a ON search_index.kind = 'article' AND a.id = search_index.ref_id
+       LEFT JOIN topics t ON t.id = CASE search_index.kind
+         WHEN 'topic' THEN search_index.ref_id WHEN 'article' THEN a.topic_id END
+       LEFT JOIN subjects s ON s.id = CASE search_index.kind
+         WHEN 'subject' THEN search_index.ref_id ELSE t.subject_id END
+       WHERE search_index MATCH ?1 AND (search_index.kind != 'article' OR a.status = 'published')
+         AND s.deleted_at IS NULL AND t.deleted_at IS NULL AND a.deleted_at IS NULL
+       ORDER BY score LIMIT ?4`
+    )
+    .bind(match, MARK_START, MARK_END, limit)
+    .all<SearchRow>();
+
+  return results.map((r): SearchResult => ({
+    kind: r.kind,
+    id: r.id,
+    title: markMatches(r.title),
+    snippet: r.snippet ? markMatches(r.snippet) : null,
+    score: r.score,
+    // The result's own subject/topic is not repeated in its breadcrumb
+    breadcrumb: {
+      subject:
+        r.kind !== 'subject' && r.subject_id && r.subject_title !== null
+          ? { id: r.subject_id, title: r.subject_title }
+          : null,
+      topic:
+        r.kind === 'article' && r.topic_id && r.topic_title !== null
+          ? { id: r.topic_id, title: r.topic_title }
+          : null,
+    },
+  }));
+};
+
+// Rebuilds the whole index from D1 and the content store. Needed once after
+// the index is created, and whenever content changed outside the admin routes.
+export const rebuildSearchIndex = async (env: Env) => {
+  const db = env.bodhak;
+  await db.batch([
+    db.prepare('DELETE FROM search_index'),
+    db.prepare(
+      `INSERT INTO search_index (kind, ref_id, title, body) SELECT 'subject', id, title, '' FROM subjects`
+    ),
+    db.prepare(
+      `INSERT INTO search_index (kind, ref_id, title, body) SELECT 'topic', id, title, '' FROM topics`
+    ),
+    db.prepare(
+      `INSERT INTO search_index (kind, ref_id, title, body) SELECT 'article', id, title, '' FROM articles`
+    ),
+  ]);
+
+  const { results: articles } = await db
+    .prepare('SELECT id, file_path FROM articles')
+    .all<{ id: number; file_path: string }>();
+  const store = getContentStore(env);
+  const contents = await Promise.all(articles.map((article) => store.get(article.file_path)));
+  const updates = articles
+    .map((article, i) => ({ id: article.id, content: contents[i] }))
+    .filter((article) => article.content !== null)
+    .map((article) => indexArticleBody(env, article.id, article.content as string));
+  if (updates.length) await db.batch(updates);
+
+  return { articles: articles.length, withContent: updates.length };
+};
@@ -0,0 +1,118 @@
+// src/sessions.ts
+import { Session } from './types';
+
+export const ACCESS_TOKEN_TTL = 60 * 15; // 15 minutes
+export const REFRESH_TOKEN_TTL = 60 * 60 * 24 * 30; // 30 days
+
+const NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+// Refresh tokens are opaque random strings; only their hash is stored so a
+// leaked database dump cannot be used to mint access tokens.
+const newRefreshToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+const hashToken = async (token: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))));
+
+const expiresAt = () => new Date(Date.now() + REFRESH_TOKEN_TTL * 1000).toISOString();
+
+export const createSession = async (env: Env, userId: number, userAgent: string | null) => {
+  const id = crypto.randomUUID();
+  const refreshToken = newRefreshToken();
+
+  await env.bodhak
+    .prepare(
+      `INSERT INTO sessions (id, user_id, refresh_token_hash, user_agent, expires_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .bind(id, userId, await hashToken(refreshToken), userAgent, expiresAt())
+    .run();
+
+  return { id, refreshToken };
+};
+
+// Swaps the presented refresh token for a new one. Returns null when the token
+// is unknown, expired or revoked. Presenting a token that was already rotated
+// out means it has been copied, so the whole session is revoked.
+export const rotateRefreshToken = async (env: Env, refreshToken: string) => {
+  const hash = await hashToken(refreshToken);
+
+  const session = await env.bodhak
+    .prepare(
+      `SELECT id, user_id FROM sessions
+       WHERE refresh_token_hash = ? AND revoked_at IS NULL AND expires_at > ?`
+    )
+    .bind(hash, new Date().toISOString())
+    .first<{ id: string; user_id: number }>();
+
+  if (!session) {
+    await env.bodhak
+      .prepare(`UPDATE sessions SET revoked_at = ${NOW} WHERE previous_token_hash = ?`)
+      .bind(hash)
+      .run();
+    return null;
+  }
+
+  const nextToken = newRefreshToken();
+  // Compare-and-swap on the old hash so two concurrent refreshes cannot both win
+  const { meta } = await env.bodhak
+    .prepare(
+      `UPDATE sessions SET refresh_token_hash = ?, previous_token_hash = ?,
+       last_used_at = ${NOW}, expires_at = ?
+       WHERE id = ? AND refresh_token_hash = ?`
+    )
+    .bind(await hashToken(nextToken), hash, expiresAt(), session.id, hash)
+    .run();
+  if (meta.changes === 0) return null;
+
+  return { id: session.id, userId: session.user_id, refreshToken: nextToken };
+};
+
+export const findSessionByRefreshToken = async (env: Env, refreshToken: string) =>
+  env.bodhak
+    .prepare('SELECT id, user_id FROM sessions WHERE refresh_token_hash = ?')
+    .bind(await hashToken(refreshToken))
+    .first<{ id: string; user_id: number }>();
+
+// Checked by `jwtAuth` on every admin request; this is what makes logout and
+// revocation take effect before the access token expires.
+export const isSessionActive = async (env: Env, sessionId: string) => {
+  const row = await env.bodhak
+    .prepare('SELECT id FROM sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > ?')
+    .bind(sessionId, new Date().toISOString())
+    .first();
+  return Boolean(row);
+};
+
+export const revokeSession = async (env: Env, sessionId: string, userId?: number | string) => {
+  const { meta } = await env.bodhak
+    .prepare(
+      `UPDATE sessions SET revoked_at = ${NOW}
+       WHERE id = ? AND revoked_at IS NULL AND (? IS NULL OR user_id = ?)`
+    )
+    .bind(sessionId, userId ?? null, userId ?? null)
+    .run();
+  return meta.changes > 0;
+};
+
+export const revokeUserSessions = async (env: Env, userId: number | string) => {
+  const { meta } = await env.bodhak
+    .prepare(`UPDATE sessions SET revoked_at = ${NOW} WHERE user_id = ? AND revoked_at IS NULL`)
+    .bind(userId)
+    .run();
+  return meta.changes;
+};
+
+export const listActiveSessions = async (env: Env, userId: number | string) => {
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT id, user_agent, created_at, last_used_at, expires_at FROM sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+       ORDER BY created_at DESC`
+    )
+    .bind(userId, new Date().toISOString())
+    .all<Session>();
+  return results;
+};
@@ -0,0 +1,212 @@
+// src/slugs.ts
+
+// Slugs address subjects, topics and articles by name in public URLs
+// (/api/s/:subjectSlug/:topicSlug/:articleSlug). Subject slugs are unique
+// overall, topic slugs within their subject and article slugs within their
+// topic. A renamed or moved row keeps answering to its old slug through
+// `slug_redirects`.
+
+export type SlugKind = 'subject' | 'topic' | 'article';
+
+const TABLES: Record<SlugKind, { table: string; scope: string | null; columns: string }> = {
+  subject: { table: 'subjects', scope: null, columns: 'id, title, slug, rank' },
+  topic: { table: 'topics', scope: 'subject_id', columns: 'id, subject_id, title, slug, rank' },
+  article: {
+    table: 'articles',
+    scope: 'topic_id',
+    columns: 'id, topic_id, title, slug, rank, published_at',
+  },
+};
+
+const MAX_SLUG_LENGTH = 80;
+
+// "Newton's Laws: Part 1" -> "newtons-laws-part-1". Letters outside Latin are
+// kept as they are; Latin accents are dropped.
+export const slugify = (title: string) =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'untitled';
+
+// `base` if it is free, otherwise the first free `base-2`, `base-3`, ...
+const firstFree = (base: string, taken: Set<string>) => {
+  if (!taken.has(base)) return base;
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${base}-${n}`)) return `${base}-${n}`;
+  }
+};
+
+// A slug for `title` that no other row under the same parent uses
+export const uniqueSlug = async (
+  env: Env,
+  kind: SlugKind,
+  scopeId: number | string | null,
+  title: string,
+  excludeId: number | string | null = null
+) => {
+  const { table, scope } = TABLES[kind];
+  const base = slugify(title);
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT slug FROM ${table}
+       WHERE ${scope ? `${scope} IS ?` : '? IS NULL'} AND id IS NOT ? AND (slug = ? OR slug LIKE ?)`
+    )
+    .bind(scopeId === null ? null : Number(scopeId), excludeId, base, `${base}-%`)
+    .all<{ slug: string }>();
+  return firstFree(base, new Set(results.map((r) => r.slug)));
+};
+
+// Slug for a row whose title or parent changes. The current slug is kept while
+// the title slugifies the same and the row stays put; otherwise a new one is
+// picked and `statements` keeps the old slug answering with a redirect. Run
+// the statements in the same batch as the update.
+export const renameSlug = async (
+  env: Env,
+  kind: SlugKind,
+  row: { id: number | string; title: string; slug: string | null; scopeId: number | null },
+  title: string,
+  scopeId: number | null = row.scopeId
+) => {
+  const moved = String(row.scopeId) !== String(scopeId);
+  if (row.slug && !moved && slugify(title) === slugify(row.title)) {
+    return { slug: row.slug, statements: [] };
+  }
+
+  const slug = await uniqueSlug(env, kind, scopeId, title, row.id);
+  const statements =
+    row.slug && (moved || slug !== row.slug)
+      ? [
+          env.bodhak
+            .prepare(
+              `INSERT OR REPLACE INTO slug_redirects (kind, scope_id, old_slug, target_id)
+               VALUES (?, ?, ?, ?)`
+            )
+            .bind(kind, row.scopeId ?? 0, row.slug, Number(row.id)),
+        ]
+      : [];
+  return { slug, statements };
+};
+
+// Gives every row without a slug one. Rows written by the import and the
+// push webhook, and rows from before slugs existed, start without one.
+export const fillMissingSlugs = async (env: Env) => {
+  const db = env.bodhak;
+  let filled = 0;
+
+  for (const kind of Object.keys(TABLES) as SlugKind[]) {
+    const { table, scope } = TABLES[kind];
+    const missing = await db.prepare(`SELECT 1 FROM ${table} WHERE slug IS NULL LIMIT 1`).first();
+    if (!missing) continue;
+
+    const { results } = await db
+      .prepare(`SELECT id, title, slug, ${scope ?? 'NULL'} AS scope_id FROM ${table} ORDER BY id`)
+      .all<{ id: number; title: string; slug: string | null; scope_id: number | null }>();
+
+    const taken = new Map<string, Set<string>>();
+    const takenIn = (scopeId: number | null) => {
+      const key = String(scopeId);
+      if (!taken.has(key)) taken.set(key, new Set());
+      return taken.get(key) as Set<string>;
+    };
+    for (const row of results) if (row.slug) takenIn(row.scope_id).add(row.slug);
+
+    const updates = results
+      .filter((row) => row.slug === null)
+      .map((row) => {
+        const slug = firstFree(slugify(row.title), takenIn(row.scope_id));
+        takenIn(row.scope_id).add(slug);
+        return db
+          .prepare(`UPDATE ${table} SET slug = ? WHERE id = ? AND slug IS NULL`)
+          .bind(slug, row.id);
+      });
+    await db.batch(updates);
+    filled += updates.length;
+  }
+  return filled;
+};
+
+interface SlugRow {
+  id: number;
+  title: string;
+  slug: string;
+  [column: string]: unknown;
+}
+
+// Resolves [subjectSlug, topicSlug?, articleSlug?] (only published articles,
+// nothing in the trash).
+// `redirected` is set when an old slug was used or a row has moved to another
+// parent; `path` is then where the row lives now.
+export const resolveSlugPath = async (env: Env, slugs: string[]) => {
+  const db = env.bodhak;
+  let redirected = false;
+
+  const byId = (kind: SlugKind, id: unknown, extra = '') =>
+    db
+      .prepare(
+        `SELECT ${TABLES[kind].columns} FROM ${TABLES[kind].table}
+         WHERE id = ? AND deleted_at IS NULL ${extra}`
+      )
+      .bind(id)
+      .first<SlugRow>();
+
+  const find = async (kind: SlugKind, scopeId: number | null, slug: string, extra = '') => {
+    const { table, scope, columns } = TABLES[kind];
+    const live = await db
+      .prepare(
+        `SELECT ${columns} FROM ${table}
+         WHERE slug = ? ${scope ? `AND ${scope} = ?` : ''} AND deleted_at IS NULL ${extra}`
+      )
+      .bind(...(scope ? [slug, scopeId] : [slug]))
+      .first<SlugRow>();
+    if (live) return live;
+
+    const redirect = await db
+      .prepare(
+        'SELECT target_id FROM slug_redirects WHERE kind = ? AND scope_id = ? AND old_slug = ?'
+      )
+      .bind(kind, scopeId ?? 0, slug)
+      .first<{ target_id: number }>();
+    if (!redirect) return null;
+    redirected = true;
+    return byId(kind, redirect.target_id, extra);
+  };
+
+  const [subjectSlug, topicSlug, articleSlug] = slugs;
+  let subject = await find('subject', null, subjectSlug);
+  if (!subject) return null;
+
+  let topic: SlugRow | null = null;
+  if (topicSlug) {
+    topic = await find('topic', subject.id, topicSlug);
+    if (!topic) return null;
+    if (topic.subject_id !== subject.id) {
+      subject = await byId('subject', topic.subject_id);
+      if (!subject) return null;
+      redirected = true;
+    }
+  }
+
+  let article: SlugRow | null = null;
+  if (topic && articleSlug) {
+    const published = "AND status = 'published'";
+    article = await find('article', topic.id, articleSlug, published);
+    if (!article) return null;
+    if (article.topic_id !== topic.id) {
+      topic = await byId('topic', article.topic_id);
+      subject = topic && (await byId('subject', topic.subject_id));
+      if (!topic || !subject) return null;
+      redirected = true;
+    }
+  }
+
+  const path = ['/api/s', subject, topic, article]
+    .filter(Boolean)
+    .map((part) => (typeof part === 'string' ? part : encodeURIComponent((part as SlugRow).slug)))
+    .join('/');
+  return { subject, topic, article, redirected, path };
+};
@@ -0,0 +1,149 @@
+// src/trash.ts
+import { enqueueArticleDeletes, processOutboxBatch } from './outbox';
+import { TrashItem } from './types';
+
+// Deleted subjects, topics and articles stay in their tables with `deleted_at`
+// set, hidden from the public routes, until they are purged. A delete stamps
+// the row and every live row under it with the same time; a restore clears
+// exactly the rows carrying that stamp, so rows that were already in the trash
+// stay there. Ranks are left alone, so restored rows return to their places.
+
+export type TrashKind = 'subject' | 'topic' | 'article';
+
+// Days a deleted row stays in the trash before the scheduled worker purges it
+export const TRASH_RETENTION_DAYS = 30;
+
+// The row and the rows under it, as (table, condition on the row's id)
+const SUBTREES: Record<TrashKind, [table: string, where: string][]> = {
+  subject: [
+    ['subjects', 'id = ?'],
+    ['topics', 'subject_id = ?'],
+    ['articles', 'topic_id IN (SELECT id FROM topics WHERE subject_id = ?)'],
+  ],
+  topic: [
+    ['topics', 'id = ?'],
+    ['articles', 'topic_id = ?'],
+  ],
+  article: [['articles', 'id = ?']],
+};
+
+// The row's own deleted_at and its parent's (null for subjects)
+const STATE_QUERIES: Record<TrashKind, string> = {
+  subject: 'SELECT deleted_at, NULL AS parent_deleted_at FROM subjects WHERE id = ?',
+  topic: `SELECT t.deleted_at, s.deleted_at AS parent_deleted_at
+          FROM topics t JOIN subjects s ON s.id = t.subject_id WHERE t.id = ?`,
+  article: `SELECT a.deleted_at, t.deleted_at AS parent_deleted_at
+            FROM articles a LEFT JOIN topics t ON t.id = a.topic_id WHERE a.id = ?`,
+};
+
+// Whether the row exists and is not in the trash
+export const isLive = async (env: Env, kind: TrashKind, id: number | string) => {
+  const [[table]] = SUBTREES[kind];
+  const row = await env.bodhak
+    .prepare(`SELECT 1 FROM ${table} WHERE id = ? AND deleted_at IS NULL`)
+    .bind(id)
+    .first();
+  return row !== null;
+};
+
+const getState = (env: Env, kind: TrashKind, id: number | string) =>
+  env.bodhak
+    .prepare(STATE_QUERIES[kind])
+    .bind(id)
+    .first<{ deleted_at: string | null; parent_deleted_at: string | null }>();
+
+// Runs `UPDATE ... SET deleted_at = <to>` over the subtree rows whose
+// deleted_at matches `from` (null: live rows). Returns the affected article ids.
+const stampSubtree = async (
+  env: Env,
+  kind: TrashKind,
+  id: number | string,
+  from: string | null,
+  to: string | null
+) => {
+  const results = await env.bodhak.batch<{ id: number }>(
+    SUBTREES[kind].map(([table, where]) =>
+      env.bodhak
+        .prepare(
+          `UPDATE ${table} SET deleted_at = ? WHERE deleted_at IS ? AND ${where} RETURNING id`
+        )
+        .bind(to, from, id)
+    )
+  );
+  return results[results.length - 1].results.map((row) => row.id);
+};
+
+// Moves a live row and everything under it to the trash. Returns null when
+// there is no such live row.
+export const moveToTrash = async (env: Env, kind: TrashKind, id: number | string) => {
+  const state = await getState(env, kind, id);
+  if (!state || state.deleted_at) return null;
+
+  const deletedAt = new Date().toISOString();
+  const articleIds = await stampSubtree(env, kind, id, null, deletedAt);
+  return { deletedAt, articleIds };
+};
+
+// Brings back a trashed row and whatever its delete took with it. Refused
+// while the parent is still in the trash.
+export const restoreFromTrash = async (env: Env, kind: TrashKind, id: number | string) => {
+  const state = await getState(env, kind, id);
+  if (!state?.deleted_at) return { error: 'Item is not in the trash.', status: 404 as const };
+  if (state.parent_deleted_at) {
+    return { error: 'Restore the parent from the trash first', status: 409 as const };
+  }
+
+  const articleIds = await stampSubtree(env, kind, id, state.deleted_at, null);
+  return { restoredFrom: state.deleted_at, articleIds };
+};
+
+// What was deleted, newest first. Rows that went to the trash together with
+// their parent are not listed separately; restoring the parent restores them.
+export const listTrash = async (env: Env) => {
+  const { results } = await env.bodhak
+    .prepare(
+      `SELECT 'subject' AS kind, id, title, NULL AS parent_id, deleted_at
+       FROM subjects WHERE deleted_at IS NOT NULL
+       UNION ALL
+       SELECT 'topic', t.id, t.title, t.subject_id, t.deleted_at
+       FROM topics t JOIN subjects s ON s.id = t.subject_id
+       WHERE t.deleted_at IS NOT NULL AND s.deleted_at IS NOT t.deleted_at
+       UNION ALL
+       SELECT 'article', a.id, a.title, a.topic_id, a.deleted_at
+       FROM articles a LEFT JOIN topics t ON t.id = a.topic_id
+       WHERE a.deleted_at IS NOT NULL AND t.deleted_at IS NOT a.deleted_at
+       ORDER BY deleted_at DESC`
+    )
+    .all<TrashItem>();
+  return results;
+};
+
+// Permanently deletes what has been in the trash for at least `olderThanDays`
+// (everything with 0), removing the article files in one storage commit.
+// Live rows under a purged parent go with it, so their files are removed too.
+export const purgeTrash = async (env: Env, olderThanDays = 0) => {
+  const db = env.bodhak;
+  const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+  const purgedTopics =
+    'deleted_at <= ? OR subject_id IN (SELECT id FROM subjects WHERE deleted_at <= ?)';
+  const purgedArticles = `deleted_at <= ? OR topic_id IN (SELECT id FROM topics WHERE ${purgedTopics})`;
+
+  const [queued, articles, topics, subjects] = await db.batch<{ id: number; article_id: number }>([
+    enqueueArticleDeletes(env, 'Purged article', purgedArticles, cutoff, cutoff, cutoff),
+    db.prepare(`DELETE FROM articles WHERE ${purgedArticles}`).bind(cutoff, cutoff, cutoff),
+    db.prepare(`DELETE FROM topics WHERE ${purgedTopics}`).bind(cutoff, cutoff),
+    db.prepare('DELETE FROM subjects WHERE deleted_at <= ?').bind(cutoff),
+  ]);
+  const ids = queued.results.map((row) => row.id);
+  const outcome = await processOutboxBatch(
+    env,
+    ids,
+    `Purged ${ids.length} articles from the trash`
+  );
+  return {
+    subjects: subjects.meta.changes,
+    topics: topics.meta.changes,
+    articles: articles.meta.changes,
+    contentRemoval: outcome.state,
+  };
+};
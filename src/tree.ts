@@ -0,0 +1,83 @@
+// src/tree.ts
+import { CACHE_TTL_SECONDS, etagFor } from './contentCache';
+import { TreeArticle, TreeSubject, TreeTopic } from './types';
+
+// The whole public hierarchy for GET /api/tree, cached at the edge like
+// article content. Admin writes purge it (see the admin middleware in
+// src/index.ts); the TTL covers other data centres and the scheduled worker.
+
+const treeKey = (requestUrl: string) => new Request(new URL('/api/tree', requestUrl));
+
+// Subjects -> topics -> published articles, each level in rank order, read in
+// one batch so the levels come from the same snapshot
+export const buildTree = async (env: Env): Promise<TreeSubject[]> => {
+  const db = env.bodhak;
+  const [subjects, topics, articles] = await db.batch([
+    db.prepare(
+      'SELECT id, title, slug, rank FROM subjects WHERE deleted_at IS NULL ORDER BY rank, id'
+    ),
+    db.prepare(
+      `SELECT id, subject_id, title, slug, rank FROM topics
+       WHERE deleted_at IS NULL ORDER BY rank, id`
+    ),
+    db.prepare(
+      `SELECT id, topic_id, title, slug, rank, published_at,
+              '/api/articles/' || id || '/content' AS content_url
+       FROM articles
+       WHERE status = 'published' AND topic_id IS NOT NULL AND deleted_at IS NULL
+       ORDER BY rank, id`
+    ),
+  ]);
+
+  const articlesByTopic = groupBy(
+    articles.results as (TreeArticle & { topic_id: number })[],
+    'topic_id'
+  );
+  const topicsBySubject = groupBy(
+    topics.results as (Omit<TreeTopic, 'articles'> & { subject_id: number })[],
+    'subject_id'
+  );
+
+  return (subjects.results as Omit<TreeSubject, 'topics'>[]).map((subject) => ({
+    ...subject,
+    topics: (topicsBySubject.get(subject.id) ?? []).map(({ subject_id, ...topic }) => ({
+      ...topic,
+      articles: (articlesByTopic.get(topic.id) ?? []).map(({ topic_id, ...article }) => article),
+    })),
+  }));
+};
+
+// Rows grouped by a parent id column, keeping their order
+const groupBy = <T extends Record<K, number>, K extends string>(rows: T[], key: K) => {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row[key]);
+    if (group) group.push(row);
+    else groups.set(row[key], [row]);
+  }
+  return groups;
+};
+
+export const buildTreeResponse = async (tree: TreeSubject[]) => {
+  const body = JSON.stringify(tree);
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      ETag: await etagFor(body),
+      'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}`,
+    },
+  });
+};
+
+// Copied for the same reason as in getCachedContent: cached headers are immutable
+export const getCachedTree = async (requestUrl: string) => {
+  const cached = await caches.default.match(treeKey(requestUrl));
+  return cached ? new Response(cached.body, cached) : undefined;
+};
+
+export const cacheTree = (requestUrl: string, response: Response) =>
+  caches.default.put(treeKey(requestUrl), response);
+
+export const purgeTree = async (requestUrl: string) => {
+  await caches.default.delete(treeKey(requestUrl));
+};
@@ -18,9 +18,14 @@ interface CloudflareBindings {
   GITHUB_REPO_NAME: string;
   GITHUB_REPO_BRANCH?: string;
   HEALTH_CHECK_DB?: string;
+  // Shared secret configured on the content repository's push webhook
+  GITHUB_WEBHOOK_SECRET?: string;
+  // Where article content is stored: 'github' (default), 'd1' or 'memory'
+  CONTENT_STORE?: string;
   ADMIN_PASSWORD: string;
 
   // Variables (injected via wrangler.jsonc vars)
+  // ADMIN_USERNAME/ADMIN_PASSWORD only seed the first account in `users`.
   ADMIN_USERNAME: string;
 }
 
@@ -29,9 +34,11 @@ declare global {
   interface Env extends CloudflareBindings {}
 }
 
+// Slugs are null only until fillMissingSlugs (src/slugs.ts) has run
 export interface Subject {
   id: number;
   title: string;
+  slug?: string | null;
   rank: string;
 }
 
@@ -39,13 +46,279 @@ export interface Topic {
   id: number;
   subject_id: number;
   title: string;
+  slug?: string | null;
   rank: string;
 }
 
+export const ARTICLE_STATUSES = ['draft', 'in_review', 'published', 'archived'] as const;
+export type ArticleStatus = (typeof ARTICLE_STATUSES)[number];
+
 export interface Article {
   id: number;
-  topic_id: number;
+  // null for unfiled drafts imported from the content repository
+  topic_id: number | null;
   title: string;
+  slug?: string | null;
   file_path: string;
   rank: string;
+  status: ArticleStatus;
+  published_at: string | null;
+  content_updated_at?: string | null;
+  sync_flag?: 'file_removed' | null;
+}
+
+// Ordered from least to most privileged.
+export const ROLES = ['viewer', 'author', 'editor', 'owner'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Article content format, version 1: an ordered list of blocks stored as JSON
+// in the content store. Validation and rendering live in src/articleFormat.ts.
+export const CALLOUT_VARIANTS = ['info', 'tip', 'warning', 'danger'] as const;
+
+export type ArticleBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; code: string; language?: string }
+  // TeX source; rendered client-side (e.g. KaTeX)
+  | { type: 'math'; tex: string; display?: boolean }
+  | { type: 'image'; src: string; alt: string; caption?: string }
+  | {
+      type: 'callout';
+      variant: (typeof CALLOUT_VARIANTS)[number];
+      title?: string;
+      text: string;
+    };
+
+export interface ArticleDocument {
+  version: 1;
+  blocks: ArticleBlock[];
+}
+
+// Representations served by GET /api/articles/:id/content?format=
+export const ARTICLE_FORMATS = ['json', 'html', 'markdown'] as const;
+export type ArticleFormat = (typeof ARTICLE_FORMATS)[number];
+
+// A commit that touched an article's file in the content repository
+export interface ArticleRevision {
+  sha: string;
+  message: string;
+  author: string | null;
+  date: string | null;
+}
+
+// One file in a multi-file write; `content: null` removes the file
+export interface FileChange {
+  path: string;
+  content: string | null;
+}
+
+// Drift between the `articles` table and the files in the content store
+export interface ReconcileReport {
+  orphanedFiles: string[];
+  missingFiles: Array<Pick<Article, 'id' | 'title' | 'file_path'>>;
+  duplicates: Array<{ file_path: string; articleIds: number[] }>;
+}
+
+export type OutboxKind = 'article_create' | 'article_update' | 'article_delete';
+export const OUTBOX_STATES = ['pending', 'processing', 'done', 'compensated', 'failed'] as const;
+
+export interface OutboxEntry {
+  id: number;
+  kind: OutboxKind;
+  article_id: number | null;
+  path: string;
+  content: string | null;
+  message: string;
+  rollback: string | null;
+  state: (typeof OUTBOX_STATES)[number];
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
 }
+
+// Portable copy of the whole curriculum (GET /api/admin/export). Rows are
+// nested rather than linked by id so a bundle loads into any database.
+export interface BundleArticle {
+  title: string;
+  rank: string;
+  status: ArticleStatus;
+  published_at: string | null;
+  file_path: string;
+  // null when the file was missing from the content store at export time
+  content: string | null;
+}
+
+export interface BundleTopic {
+  title: string;
+  rank: string;
+  articles: BundleArticle[];
+}
+
+export interface BundleSubject {
+  title: string;
+  rank: string;
+  topics: BundleTopic[];
+}
+
+export interface CurriculumBundle {
+  version: 1;
+  exportedAt: string;
+  subjects: BundleSubject[];
+  unfiledArticles: BundleArticle[];
+}
+
+export const IMPORT_MODES = ['merge', 'replace'] as const;
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+export interface ImportCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  // Rows in the trash that replace mode deleted along with the curriculum
+  purged: number;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  subjects: ImportCounts;
+  topics: ImportCounts;
+  articles: ImportCounts;
+}
+
+// One hit from GET /api/search. `title` and `snippet` are escaped HTML that
+// wraps matches in <mark>.
+export interface SearchResult {
+  kind: 'subject' | 'topic' | 'article';
+  id: number;
+  title: string;
+  snippet: string | null;
+  // bm25 score; lower is a better match
+  score: number;
+  breadcrumb: {
+    subject: { id: number; title: string } | null;
+    topic: { id: number; title: string } | null;
+  };
+}
+
+// GET /api/tree: the public hierarchy with published articles only
+export interface TreeArticle {
+  id: number;
+  title: string;
+  slug: string | null;
+  rank: string;
+  published_at: string | null;
+  content_url: string;
+}
+
+export interface TreeTopic {
+  id: number;
+  title: string;
+  slug: string | null;
+  rank: string;
+  articles: TreeArticle[];
+}
+
+export interface TreeSubject {
+  id: number;
+  title: string;
+  slug: string | null;
+  rank: string;
+  topics: TreeTopic[];
+}
+
+// A top-level entry in GET /api/admin/trash; `parent_id` is the subject of a
+// topic or the topic of an article
+export interface TrashItem {
+  kind: 'subject' | 'topic' | 'article';
+  id: number;
+  title: string;
+  parent_id: number | null;
+  deleted_at: string;
+}
+
+// One entry of GET /api/admin/audit. `before`/`after` are snapshots of the
+// entity's row, null for entities without one or when the row did not exist.
+export interface AuditEntry {
+  id: number;
+  user_id: number;
+  username: string;
+  // e.g. `update`, `move` or `grants.delete`
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SubjectGrant {
+  user_id: number;
+  subject_id: number;
+  role: Role;
+}
+
+export interface Session {
+  id: string;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+}
+
+// Claims carried in the admin access token. `sub` is the id of the row in
+// `users` and `sid` the id of the row in `sessions`.
+export interface AuthPayload {
+  sub: string;
+  sid: string;
+  username: string;
+  role: Role;
+  exp: number;
+}
+
+// Machine-readable `code` of an error response (see src/errors.ts)
+export const ERROR_CODES = [
+  'bad_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'validation_failed',
+  'invalid_reference',
+  'rate_limited',
+  'internal_error',
+  'unavailable',
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+export type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 422 | 429 | 500 | 503;
+
+// Body of every error response
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  requestId: string | null;
+  // e.g. the failed fields of a validation error
+  details?: unknown;
+}
+
+// Hono environment shared by the app and its middleware.
+export type AppEnv = {
+  Bindings: Env;
+  Variables: {
+    jwtPayload: AuthPayload;
+    // Set by hono/request-id and echoed in the X-Request-Id response header
+    requestId: string;
+  };
+};
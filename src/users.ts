@@ -0,0 +1,208 @@
+// src/users.ts
+import { Role, SubjectGrant, User } from './types';
+
+// Workers caps PBKDF2 at 100k iterations. The count is stored per user so it can
+// be raised later without invalidating existing hashes.
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+interface UserRow extends User {
+  password_hash: string;
+  password_salt: string;
+  password_iterations: number;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+// Derives a PBKDF2-SHA256 hash for the password. A random salt is generated
+// unless one is given (when verifying an existing hash).
+export const hashPassword = async (
+  password: string,
+  salt: Uint8Array = crypto.getRandomValues(new Uint8Array(SALT_BYTES)),
+  iterations: number = PBKDF2_ITERATIONS
+) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return { hash: toHex(new Uint8Array(bits)), salt: toHex(salt), iterations };
+};
+
+// Compares in constant time so the response time does not leak how much of the
+// hash matched.
+export const verifyPassword = async (
+  password: string,
+  hash: string,
+  salt: string,
+  iterations: number
+) => {
+  const candidate = await hashPassword(password, fromHex(salt), iterations);
+  if (candidate.hash.length !== hash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) {
+    diff |= candidate.hash.charCodeAt(i) ^ hash.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Checked when the username is unknown, so that failure costs the same PBKDF2
+// run as a wrong password and the response time does not reveal which
+// accounts exist. No password hashes to it.
+const DUMMY_CREDENTIALS = {
+  hash: '0'.repeat(64),
+  salt: '0'.repeat(SALT_BYTES * 2),
+  iterations: PBKDF2_ITERATIONS,
+};
+
+const USER_COLUMNS = 'id, username, role, disabled, created_at, updated_at';
+
+const toUser = (row: User): User => ({ ...row, disabled: Boolean(row.disabled) });
+
+export const listUsers = async (env: Env) => {
+  const { results } = await env.bodhak
+    .prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY id ASC`)
+    .all<User>();
+  return results.map(toUser);
+};
+
+export const getUserById = async (env: Env, id: number | string) => {
+  const row = await env.bodhak
+    .prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`)
+    .bind(id)
+    .first<User>();
+  return row ? toUser(row) : null;
+};
+
+// Looks up a user and checks the password. Returns the user (without hash
+// fields) on success, or null when the username is unknown or the password is wrong.
+export const authenticateUser = async (env: Env, username: string, password: string) => {
+  const row = await env.bodhak
+    .prepare(
+      `SELECT ${USER_COLUMNS}, password_hash, password_salt, password_iterations FROM users WHERE username = ?`
+    )
+    .bind(username)
+    .first<UserRow>();
+  if (!row) {
+    const { hash, salt, iterations } = DUMMY_CREDENTIALS;
+    await verifyPassword(password, hash, salt, iterations);
+    return null;
+  }
+
+  const ok = await verifyPassword(
+    password,
+    row.password_hash,
+    row.password_salt,
+    row.password_iterations
+  );
+  if (!ok) return null;
+
+  const { password_hash, password_salt, password_iterations, ...user } = row;
+  return toUser(user);
+};
+
+export const createUser = async (
+  env: Env,
+  username: string,
+  password: string,
+  role: Role = 'viewer'
+) => {
+  const { hash, salt, iterations } = await hashPassword(password);
+  const row = await env.bodhak
+    .prepare(
+      `INSERT INTO users (username, role, password_hash, password_salt, password_iterations)
+       VALUES (?, ?, ?, ?, ?) RETURNING ${USER_COLUMNS}`
+    )
+    .bind(username, role, hash, salt, iterations)
+    .first<User>();
+  return toUser(row as User);
+};
+
+export const setUserDisabled = async (env: Env, id: number | string, disabled: boolean) => {
+  const { meta } = await env.bodhak
+    .prepare(
+      "UPDATE users SET disabled = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?"
+    )
+    .bind(disabled ? 1 : 0, id)
+    .run();
+  return meta.changes > 0;
+};
+
+export const setUserRole = async (env: Env, id: number | string, role: Role) => {
+  const { meta } = await env.bodhak
+    .prepare(
+      "UPDATE users SET role = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?"
+    )
+    .bind(role, id)
+    .run();
+  return meta.changes > 0;
+};
+
+export const resetUserPassword = async (env: Env, id: number | string, password: string) => {
+  const { hash, salt, iterations } = await hashPassword(password);
+  const { meta } = await env.bodhak
+    .prepare(
+      `UPDATE users SET password_hash = ?, password_salt = ?, password_iterations = ?,
+       updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`
+    )
+    .bind(hash, salt, iterations, id)
+    .run();
+  return meta.changes > 0;
+};
+
+// Seeds the first account from ADMIN_USERNAME/ADMIN_PASSWORD while the users
+// table is still empty, so a fresh deployment can log in and create the rest.
+export const ensureBootstrapAdmin = async (env: Env) => {
+  if (!env.ADMIN_USERNAME || !env.ADMIN_PASSWORD) return;
+
+  const existing = await env.bodhak.prepare('SELECT id FROM users LIMIT 1').first();
+  if (existing) return;
+
+  await createUser(env, env.ADMIN_USERNAME, env.ADMIN_PASSWORD, 'owner');
+};
+
+export const listSubjectGrants = async (env: Env, userId: number | string) => {
+  const { results } = await env.bodhak
+    .prepare('SELECT user_id, subject_id, role FROM subject_grants WHERE user_id = ?')
+    .bind(userId)
+    .all<SubjectGrant>();
+  return results;
+};
+
+export const setSubjectGrant = async (
+  env: Env,
+  userId: number | string,
+  subjectId: number | string,
+  role: Role
+) => {
+  await env.bodhak
+    .prepare(
+      `INSERT INTO subject_grants (user_id, subject_id, role) VALUES (?, ?, ?)
+       ON CONFLICT (user_id, subject_id) DO UPDATE SET role = excluded.role`
+    )
+    .bind(userId, subjectId, role)
+    .run();
+};
+
+export const removeSubjectGrant = async (
+  env: Env,
+  userId: number | string,
+  subjectId: number | string
+) => {
+  const { meta } = await env.bodhak
+    .prepare('DELETE FROM subject_grants WHERE user_id = ? AND subject_id = ?')
+    .bind(userId, subjectId)
+    .run();
+  return meta.changes > 0;
+};
@@ -0,0 +1,180 @@
+// src/webhooks.ts
+import { LexoRank } from '@dalet-oss/lexorank';
+import { purgeArticleContent } from './contentCache';
+import { getContentStore } from './contentStore';
+import { getCommitFiles } from './github';
+import { ARTICLES_DIR } from './reconcile';
+import { indexArticleBody } from './search';
+
+interface PushCommit {
+  id: string;
+  timestamp: string;
+  added?: string[];
+  removed?: string[];
+  modified?: string[];
+}
+
+export interface PushEvent {
+  ref: string;
+  repository?: { default_branch?: string };
+  commits?: PushCommit[];
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+// Checks the `X-Hub-Signature-256` header (sha256=<hex HMAC of the raw body>).
+// Compared in constant time so the response time does not leak the signature.
+export const verifySignature = async (secret: string, body: string, header: string | undefined) => {
+  if (!header?.startsWith('sha256=')) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  const expected = `sha256=${toHex(new Uint8Array(mac))}`;
+
+  if (expected.length !== header.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ header.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const isArticleFile = (path: string) => path.startsWith(`${ARTICLES_DIR}/`);
+
+// "articles/newton_s_laws-1729000000000.json" -> "newton s laws"
+export const titleFromPath = (path: string) =>
+  path
+    .slice(path.lastIndexOf('/') + 1)
+    .replace(/\.[^.]+$/, '')
+    .replace(/-\d{10,}$/, '')
+    .replace(/_+/g, ' ')
+    .trim() || path;
+
+// Push payloads list renames as a removal plus an addition. When a commit has
+// both, ask GitHub for the commit's file list, which pairs them up.
+const findRenames = async (env: Env, commit: PushCommit) => {
+  const added = (commit.added ?? []).filter(isArticleFile);
+  const removed = (commit.removed ?? []).filter(isArticleFile);
+  if (!added.length || !removed.length) return [];
+
+  try {
+    const files = await getCommitFiles(env, commit.id);
+    return files
+      .filter((f) => f.status === 'renamed' && f.previousFilename)
+      .map((f) => ({ from: f.previousFilename as string, to: f.filename }));
+  } catch (err) {
+    // Fall back to treating the files as separate additions and removals
+    // eslint-disable-next-line no-console
+    console.warn('Could not resolve renames for commit', commit.id, String(err));
+    return [];
+  }
+};
+
+// Applies the article changes in a push to the `articles` table:
+// - modified files refresh `content_updated_at` and clear any sync flag
+// - renamed files move `file_path` to the new name
+// - removed files flag the row and take it off the public site
+// - new files without a row become unfiled drafts
+// The search index and the cached content (keyed by `requestUrl`'s origin) of
+// every article whose file was added, modified or renamed are then brought up
+// to date.
+export const applyPushEvent = async (env: Env, event: PushEvent, requestUrl: string) => {
+  const db = env.bodhak;
+  const summary = { modified: 0, renamed: 0, flagged: 0, created: 0 };
+  // File path of every article whose content may have changed, by id
+  const changed = new Map<number, string>();
+
+  for (const commit of event.commits ?? []) {
+    const renames = await findRenames(env, commit);
+    const renamedFrom = new Set(renames.map((r) => r.from));
+    const renamedTo = new Set(renames.map((r) => r.to));
+
+    for (const { from, to } of renames) {
+      const { results } = await db
+        .prepare(
+          `UPDATE articles SET file_path = ?, content_updated_at = ? WHERE file_path = ?
+           RETURNING id`
+        )
+        .bind(to, commit.timestamp, from)
+        .all<{ id: number }>();
+      summary.renamed += results.length;
+      for (const { id } of results) changed.set(id, to);
+      // A renamed file nobody tracked is just a new file
+      if (results.length === 0) renamedTo.delete(to);
+    }
+
+    for (const path of (commit.modified ?? []).filter(isArticleFile)) {
+      const { results } = await db
+        .prepare(
+          `UPDATE articles SET content_updated_at = ?, sync_flag = NULL WHERE file_path = ?
+           RETURNING id`
+        )
+        .bind(commit.timestamp, path)
+        .all<{ id: number }>();
+      summary.modified += results.length;
+      for (const { id } of results) changed.set(id, path);
+    }
+
+    for (const path of (commit.removed ?? []).filter(isArticleFile)) {
+      if (renamedFrom.has(path)) continue;
+      const { meta } = await db
+        .prepare(
+          `UPDATE articles SET sync_flag = 'file_removed',
+           status = CASE WHEN status = 'published' THEN 'draft' ELSE status END
+           WHERE file_path = ?`
+        )
+        .bind(path)
+        .run();
+      summary.flagged += meta.changes;
+    }
+
+    for (const path of (commit.added ?? []).filter(isArticleFile)) {
+      if (renamedTo.has(path)) continue;
+      // The backend's own commits also arrive here; their rows already exist
+      const existing = await db
+        .prepare('UPDATE articles SET sync_flag = NULL WHERE file_path = ? RETURNING id')
+        .bind(path)
+        .first<{ id: number }>();
+      if (existing) {
+        changed.set(existing.id, path);
+        continue;
+      }
+
+      const last = await db
+        .prepare('SELECT rank FROM articles WHERE topic_id IS NULL ORDER BY rank DESC LIMIT 1')
+        .first<{ rank: string }>();
+      const rank = last ? LexoRank.parse(last.rank).genNext() : LexoRank.middle();
+
+      const created = await db
+        .prepare(
+          `INSERT INTO articles (topic_id, title, file_path, rank, content_updated_at)
+           VALUES (NULL, ?, ?, ?, ?) RETURNING id`
+        )
+        .bind(titleFromPath(path), path, rank.toString(), commit.timestamp)
+        .first<{ id: number }>();
+      if (created) changed.set(created.id, path);
+      summary.created++;
+    }
+  }
+
+  if (changed.size) {
+    const store = getContentStore(env);
+    const entries = [...changed];
+    const contents = await Promise.all(entries.map(([, path]) => store.get(path)));
+    const statements = entries.flatMap(([id], i) => {
+      const content = contents[i];
+      return content === null ? [] : [indexArticleBody(env, id, content)];
+    });
+    if (statements.length) await db.batch(statements);
+    await purgeArticleContent(requestUrl, [...changed.keys()]);
+  }
+
+  return summary;
+};
@@ -72,10 +72,12 @@ async function loginAndGetCookie() {
 async function findSubject(title: string, timeout = 10000) {
   const start = Date.now();
   while (Date.now() - start < timeout) {
-    const res = await fetch('http://127.0.0.1:8787/api/subjects');
+    const res = await fetch(
+      `http://127.0.0.1:8787/api/subjects?title=${encodeURIComponent(title)}`
+    );
     if (res.ok) {
-      const arr = await res.json();
-      const found = Array.isArray(arr) ? arr.find((s: any) => s.title === title) : undefined;
+      const { data }: any = await res.json();
+      const found = Array.isArray(data) ? data.find((s: any) => s.title === title) : undefined;
       if (found) return found;
     }
     await new Promise((r) => setTimeout(r, 300));
@@ -87,10 +89,12 @@ async function findSubject(title: string, timeout = 10000) {
 async function findTopic(subjectId: number | string, title: string, timeout = 10000) {
   const start = Date.now();
   while (Date.now() - start < timeout) {
-    const res = await fetch(`http://127.0.0.1:8787/api/subjects/${subjectId}/topics`);
+    const res = await fetch(
+      `http://127.0.0.1:8787/api/subjects/${subjectId}/topics?title=${encodeURIComponent(title)}`
+    );
     if (res.ok) {
-      const arr = await res.json();
-      const found = Array.isArray(arr) ? arr.find((t: any) => t.title === title) : undefined;
+      const { data }: any = await res.json();
+      const found = Array.isArray(data) ? data.find((t: any) => t.title === title) : undefined;
       if (found) return found;
     }
     await new Promise((r) => setTimeout(r, 300));
@@ -102,10 +106,12 @@ async function findTopic(subjectId: number | string, title: string, timeout = 10
 async function findArticle(topicId: number | string, title: string, timeout = 10000) {
   const start = Date.now();
   while (Date.now() - start < timeout) {
-    const res = await fetch(`http://127.0.0.1:8787/api/topics/${topicId}/articles`);
+    const res = await fetch(
+      `http://127.0.0.1:8787/api/topics/${topicId}/articles?title=${encodeURIComponent(title)}`
+    );
     if (res.ok) {
-      const arr = await res.json();
-      const found = Array.isArray(arr) ? arr.find((a: any) => a.title === title) : undefined;
+      const { data }: any = await res.json();
+      const found = Array.isArray(data) ? data.find((a: any) => a.title === title) : undefined;
       if (found) return found;
     }
     await new Promise((r) => setTimeout(r, 300));
@@ -143,6 +149,29 @@ describe('D1 integration tests (isolated endpoints)', () => {
     expect(combined).toContain('S1');
   });
 
+  test('GET /api/subjects pages with a cursor and selected fields', async () => {
+    await runSql(
+      "INSERT INTO subjects (title, rank) VALUES ('P1', 'a'), ('P2', 'b'), ('P3', 'c');"
+    );
+    const first = await fetch('http://127.0.0.1:8787/api/subjects?limit=2&fields=title');
+    expect(first.status).toBe(200);
+    const page1: any = await first.json();
+    expect(page1.data).toEqual([{ title: 'P1' }, { title: 'P2' }]);
+    expect(page1.next).toBeTruthy();
+
+    // Moving an already-seen row to the end must not make the next page skip P3
+    await runSql("UPDATE subjects SET rank = 'z' WHERE title = 'P1';");
+    const second = await fetch(
+      `http://127.0.0.1:8787/api/subjects?limit=2&fields=title&cursor=${page1.next}`
+    );
+    const page2: any = await second.json();
+    expect(page2.data).toEqual([{ title: 'P3' }, { title: 'P1' }]);
+    expect(page2.next).toBeNull();
+
+    const bad = await fetch('http://127.0.0.1:8787/api/subjects?fields=password');
+    expect(bad.status).toBe(422);
+  });
+
   test('GET /api/subjects/:id/topics returns topics for subject', async () => {
     const cookie = await loginAndGetCookie();
     const subRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
@@ -174,15 +203,14 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const body = await res.json();
     expect(JSON.stringify(body)).toContain('T1');
 
-    // retrieve created topics via public API to get their ranks
+    // retrieve created topics via public API to get their ids
     const t1obj = await findTopic(subjectId, 'T1');
     const t2obj = await findTopic(subjectId, 'T2');
     const tid = t1obj?.id ?? null;
-    const afterRank = t2obj?.rank ?? undefined;
     const reorderRes2 = await fetch('http://127.0.0.1:8787/api/admin/topics/reorder', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Cookie: cookie },
-      body: JSON.stringify({ id: tid, afterRank }),
+      body: JSON.stringify({ id: tid, afterId: t2obj?.id }),
     });
     expect(reorderRes2.status).toBe(200);
     const b2 = await reorderRes2.json();
@@ -198,7 +226,7 @@ describe('D1 integration tests (isolated endpoints)', () => {
     expect(res.status).toBe(401);
   });
 
-  test('Authenticated admin can update and delete subject', async () => {
+  test('Authenticated admin can update, delete, restore and purge subject', async () => {
     const cookie = await loginAndGetCookie();
     const subRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
       method: 'POST',
@@ -226,8 +254,82 @@ describe('D1 integration tests (isolated endpoints)', () => {
       headers: { Cookie: cookie },
     });
     expect(delRes.status).toBe(200);
-    const afterDel = await runSql(`SELECT id FROM subjects WHERE id = ${subjectId} LIMIT 1;`);
-    expect(JSON.stringify(afterDel)).not.toContain(String(subjectId));
+    const afterDel = await runSql(`SELECT deleted_at FROM subjects WHERE id = ${subjectId};`);
+    expect(JSON.stringify(afterDel)).toMatch(/"deleted_at":"\d{4}-/);
+    const listed = await fetch('http://127.0.0.1:8787/api/subjects?title=S3-updated');
+    expect(((await listed.json()) as any).data).toEqual([]);
+
+    // Trash and restore
+    const trashRes = await fetch('http://127.0.0.1:8787/api/admin/trash', {
+      headers: { Cookie: cookie },
+    });
+    const trash: any = await trashRes.json();
+    expect(trash.some((item: any) => item.kind === 'subject' && item.id === subjectId)).toBe(true);
+    const restoreRes = await fetch(
+      `http://127.0.0.1:8787/api/admin/subjects/${subjectId}/restore`,
+      { method: 'POST', headers: { Cookie: cookie } }
+    );
+    expect(restoreRes.status).toBe(200);
+    expect(await findSubject('S3-updated')).toBeTruthy();
+
+    // Delete again and purge the trash
+    await fetch(`http://127.0.0.1:8787/api/admin/subjects/${subjectId}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    });
+    const purgeRes = await fetch('http://127.0.0.1:8787/api/admin/trash/purge', {
+      method: 'POST',
+      headers: { Cookie: cookie },
+    });
+    expect(purgeRes.status).toBe(200);
+    const afterPurge = await runSql(`SELECT id FROM subjects WHERE id = ${subjectId} LIMIT 1;`);
+    expect(JSON.stringify(afterPurge)).not.toContain(String(subjectId));
+  });
+
+  test('Errors share one envelope with a code and the request id', async () => {
+    const cookie = await loginAndGetCookie();
+    const missingRoute = await fetch('http://127.0.0.1:8787/api/nothing-here');
+    expect(missingRoute.status).toBe(404);
+    const body: any = await missingRoute.json();
+    expect(body.code).toBe('not_found');
+    expect(body.requestId).toBe(missingRoute.headers.get('x-request-id'));
+
+    const missingSubject = await fetch('http://127.0.0.1:8787/api/admin/subjects/999999', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Nope' }),
+    });
+    expect(missingSubject.status).toBe(404);
+
+    const orphan = await fetch('http://127.0.0.1:8787/api/admin/topics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Orphan', subjectId: 999999 }),
+    });
+    expect(orphan.status).toBe(422);
+    expect(await orphan.json()).toMatchObject({ code: 'invalid_reference' });
+
+    const invalid = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: '' }),
+    });
+    expect(invalid.status).toBe(422);
+    const invalidBody: any = await invalid.json();
+    expect(invalidBody.code).toBe('validation_failed');
+    expect(invalidBody.details[0].path).toBe('title');
+  });
+
+  test('GET /openapi.json describes the API and /docs serves its UI', async () => {
+    const res = await fetch('http://127.0.0.1:8787/openapi.json');
+    expect(res.status).toBe(200);
+    const doc: any = await res.json();
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.paths['/api/admin/subjects'].post.requestBody).toBeDefined();
+
+    const docs = await fetch('http://127.0.0.1:8787/docs');
+    expect(docs.status).toBe(200);
+    expect(await docs.text()).toContain('/openapi.json');
   });
 
   test('Authenticated admin can create subject via endpoint', async () => {
@@ -242,6 +344,67 @@ describe('D1 integration tests (isolated endpoints)', () => {
     expect(JSON.stringify(check)).toContain('S-create');
   });
 
+  test('Admin writes are recorded in the audit log with snapshots', async () => {
+    const cookie = await loginAndGetCookie();
+    const createRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Audited' }),
+    });
+    const { id }: any = await createRes.json();
+    const requestId = `audit-${Date.now()}`;
+    const renameRes = await fetch(`http://127.0.0.1:8787/api/admin/subjects/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie, 'X-Request-Id': requestId },
+      body: JSON.stringify({ title: 'Audited again' }),
+    });
+    expect(renameRes.headers.get('x-request-id')).toBe(requestId);
+
+    const auditRes = await fetch(
+      `http://127.0.0.1:8787/api/admin/audit?entityType=subject&entityId=${id}`,
+      { headers: { Cookie: cookie } }
+    );
+    expect(auditRes.status).toBe(200);
+    const { data }: any = await auditRes.json();
+    const update = data.find((entry: any) => entry.request_id === requestId);
+    expect(update).toMatchObject({ action: 'update', entity_type: 'subject' });
+    expect(update.before.title).toBe('Audited');
+    expect(update.after.title).toBe('Audited again');
+    expect(data.some((entry: any) => entry.action === 'create')).toBe(true);
+  });
+
+  test('Renamed subject answers at its new slug and redirects from the old one', async () => {
+    const cookie = await loginAndGetCookie();
+    const createRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Slug Physics' }),
+    });
+    expect(createRes.status).toBe(201);
+    const created: any = await createRes.json();
+    expect(created.slug).toBe('slug-physics');
+    const subj = await findSubject('Slug Physics');
+
+    const renameRes = await fetch(`http://127.0.0.1:8787/api/admin/subjects/${subj.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Slug Mechanics' }),
+    });
+    expect(renameRes.status).toBe(200);
+
+    const current = await fetch('http://127.0.0.1:8787/api/s/slug-mechanics');
+    expect(current.status).toBe(200);
+    const body: any = await current.json();
+    expect(body.subject.title).toBe('Slug Mechanics');
+
+    const old = await fetch('http://127.0.0.1:8787/api/s/slug-physics', { redirect: 'manual' });
+    expect(old.status).toBe(301);
+    expect(old.headers.get('location')).toContain('/api/s/slug-mechanics');
+
+    const missing = await fetch('http://127.0.0.1:8787/api/s/no-such-subject');
+    expect(missing.status).toBe(404);
+  });
+
   test('Authenticated admin can create topic via endpoint', async () => {
     const cookie = await loginAndGetCookie();
     // create a subject via admin so the app sees it
@@ -265,6 +428,44 @@ describe('D1 integration tests (isolated endpoints)', () => {
     expect(JSON.stringify(check)).toContain('T-create');
   });
 
+  test('GET /api/tree is cached by ETag and refreshed by admin writes', async () => {
+    const cookie = await loginAndGetCookie();
+    // Admin writes purge the cached tree, so it reflects this test's rows
+    const subRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Tree Subject' }),
+    });
+    expect(subRes.status).toBe(201);
+    const s = await findSubject('Tree Subject');
+
+    const first = await fetch('http://127.0.0.1:8787/api/tree');
+    expect(first.status).toBe(200);
+    const tree: any = await first.json();
+    expect(tree).toEqual([expect.objectContaining({ title: 'Tree Subject', topics: [] })]);
+    const etag = first.headers.get('etag') as string;
+    expect(etag).toBeTruthy();
+
+    const unchanged = await fetch('http://127.0.0.1:8787/api/tree', {
+      headers: { 'If-None-Match': etag },
+    });
+    expect(unchanged.status).toBe(304);
+
+    const topicRes = await fetch('http://127.0.0.1:8787/api/admin/topics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Tree Topic', subjectId: s.id }),
+    });
+    expect(topicRes.status).toBe(201);
+
+    const changed = await fetch('http://127.0.0.1:8787/api/tree', {
+      headers: { 'If-None-Match': etag },
+    });
+    expect(changed.status).toBe(200);
+    const updated: any = await changed.json();
+    expect(updated[0].topics).toEqual([expect.objectContaining({ title: 'Tree Topic' })]);
+  });
+
   test('GET /api/topics/:topicId/articles returns articles for topic', async () => {
     // prepare subject and topic
     const cookie = await loginAndGetCookie();
@@ -287,9 +488,9 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const topicId = t?.id ?? null;
     expect(topicId).not.toBeNull();
 
-    // insert article row directly
+    // insert a published article row directly (drafts are hidden from public routes)
     await runSql(
-      `INSERT INTO articles (topic_id, title, file_path, rank) VALUES (${topicId}, 'A1', 'fp', 'a');`
+      `INSERT INTO articles (topic_id, title, file_path, rank, status) VALUES (${topicId}, 'A1', 'fp', 'a', 'published');`
     );
     const res = await fetch(`http://127.0.0.1:8787/api/topics/${topicId}/articles`);
     expect(res.status).toBe(200);
@@ -319,12 +520,30 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const reorderRes = await fetch('http://127.0.0.1:8787/api/admin/subjects/reorder', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Cookie: cookie },
-      body: JSON.stringify({ id: idToMove, afterRank: r2obj?.rank ?? undefined }),
+      body: JSON.stringify({ id: idToMove, afterId: r2obj?.id }),
     });
     expect(reorderRes.status).toBe(200);
     const body = await reorderRes.json();
     expect(body).toHaveProperty('newRank');
 
+    // Neighbours must be siblings of the moved item
+    const invalidRes = await fetch('http://127.0.0.1:8787/api/admin/subjects/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ id: idToMove, afterId: 999999 }),
+    });
+    expect(invalidRes.status).toBe(422);
+
+    // Rebalancing keeps the order (R2 before R1)
+    const rebalanceRes = await fetch('http://127.0.0.1:8787/api/admin/subjects/rebalance', {
+      method: 'POST',
+      headers: { Cookie: cookie },
+    });
+    expect(rebalanceRes.status).toBe(200);
+    const listRes = await fetch('http://127.0.0.1:8787/api/subjects?fields=title');
+    const list: any = await listRes.json();
+    expect(list.data).toEqual([{ title: 'R2' }, { title: 'R1' }]);
+
     // topics reorder: create subject+topics
     const tr = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
       method: 'POST',
@@ -350,18 +569,100 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const t1Obj = await findTopic(subjId, 't1');
     const t2Obj = await findTopic(subjId, 't2');
     const tid = t1Obj?.id ?? null;
-    const afterRank2 = t2Obj?.rank ?? undefined;
     const reorderRes2 = await fetch('http://127.0.0.1:8787/api/admin/topics/reorder', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Cookie: cookie },
-      body: JSON.stringify({ id: tid, afterRank: afterRank2 }),
+      body: JSON.stringify({ id: tid, afterId: t2Obj?.id }),
     });
     expect(reorderRes2.status).toBe(200);
     const b2 = await reorderRes2.json();
     expect(b2).toHaveProperty('newRank');
   });
 
-  test('Authenticated admin can create, update, and delete article (GitHub mocked)', async () => {
+  test('PUT /api/admin/topics/order sets the whole order of a subject', async () => {
+    const cookie = await loginAndGetCookie();
+    const subRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Order Subject' }),
+    });
+    expect(subRes.status).toBe(201);
+    const subj = await findSubject('Order Subject');
+    const ids: number[] = [];
+    for (const title of ['O1', 'O2', 'O3']) {
+      const res = await fetch('http://127.0.0.1:8787/api/admin/topics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ title, subjectId: subj.id }),
+      });
+      expect(res.status).toBe(201);
+      ids.push((await findTopic(subj.id, title)).id);
+    }
+
+    const order = (list: number[]) =>
+      fetch('http://127.0.0.1:8787/api/admin/topics/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ subjectId: subj.id, ids: list }),
+      });
+
+    // Lists that are not exactly the subject's topics are rejected
+    expect((await order(ids.slice(1))).status).toBe(422);
+    expect((await order([...ids, 999999])).status).toBe(422);
+
+    const res = await order([ids[2], ids[0], ids[1]]);
+    expect(res.status).toBe(200);
+    const listRes = await fetch(
+      `http://127.0.0.1:8787/api/subjects/${subj.id}/topics?fields=title`
+    );
+    const list: any = await listRes.json();
+    expect(list.data).toEqual([{ title: 'O3' }, { title: 'O1' }, { title: 'O2' }]);
+  });
+
+  test('POST /api/admin/topics/:id/move places the topic in another subject', async () => {
+    const cookie = await loginAndGetCookie();
+    const post = (path: string, body: unknown) =>
+      fetch(`http://127.0.0.1:8787${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify(body),
+      });
+
+    expect((await post('/api/admin/subjects', { title: 'Move From' })).status).toBe(201);
+    expect((await post('/api/admin/subjects', { title: 'Move To' })).status).toBe(201);
+    const from = await findSubject('Move From');
+    const to = await findSubject('Move To');
+    for (const [title, subjectId] of [
+      ['Mover', from.id],
+      ['D1', to.id],
+      ['D2', to.id],
+    ]) {
+      expect((await post('/api/admin/topics', { title, subjectId })).status).toBe(201);
+    }
+    const mover = await findTopic(from.id, 'Mover');
+    const d1 = await findTopic(to.id, 'D1');
+
+    const res = await post(`/api/admin/topics/${mover.id}/move`, {
+      subjectId: to.id,
+      afterId: d1.id,
+    });
+    expect(res.status).toBe(200);
+    const body: any = await res.json();
+    expect(body.position).toBe(1);
+
+    const listRes = await fetch(`http://127.0.0.1:8787/api/subjects/${to.id}/topics?fields=title`);
+    const list: any = await listRes.json();
+    expect(list.data).toEqual([{ title: 'D1' }, { title: 'Mover' }, { title: 'D2' }]);
+
+    // The neighbour must be a topic of the destination subject
+    const bad = await post(`/api/admin/topics/${d1.id}/move`, {
+      subjectId: from.id,
+      afterId: mover.id,
+    });
+    expect(bad.status).toBe(422);
+  });
+
+  test('Authenticated admin can create, update, and delete article (in-memory content store)', async () => {
     const cookie = await loginAndGetCookie();
 
     // create subject
@@ -386,11 +687,21 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const topicId = t?.id ?? null;
     expect(topicId).not.toBeNull();
 
-    // create article via admin (this should call mocked createGitHubFile)
+    const doc = (text: string) => ({ version: 1, blocks: [{ type: 'paragraph', text }] });
+
+    // malformed content is rejected
+    const badRes = await fetch('http://127.0.0.1:8787/api/admin/articles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'Bad', topicId, content: '{"hello":"world"}' }),
+    });
+    expect(badRes.status).toBe(422);
+
+    // create article via admin (content goes to the in-memory store)
     const artRes = await fetch('http://127.0.0.1:8787/api/admin/articles', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', Cookie: cookie, 'x-test-mock-gh': '1' },
-      body: JSON.stringify({ title: 'MyArticle', topicId, content: '{"hello":"world"}' }),
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'MyArticle', topicId, content: doc('world') }),
     });
     if (artRes.status !== 201) {
       const err = await artRes.json().catch(() => ({ raw: 'non-json' }));
@@ -400,28 +711,101 @@ describe('D1 integration tests (isolated endpoints)', () => {
     const created = await artRes.json();
     expect(created).toHaveProperty('filePath');
 
+    // new articles start as drafts and stay out of the public list
+    const publicRes = await fetch(`http://127.0.0.1:8787/api/topics/${topicId}/articles`);
+    expect(JSON.stringify(await publicRes.json())).not.toContain('MyArticle');
+    const draftsRes = await fetch(
+      `http://127.0.0.1:8787/api/admin/articles?status=draft&topicId=${topicId}`,
+      { headers: { Cookie: cookie } }
+    );
+    const drafts: any = await draftsRes.json();
+    const draft = drafts.find((a: any) => a.title === 'MyArticle');
+    expect(draft).toBeDefined();
+
+    // publish it
+    const pubRes = await fetch(`http://127.0.0.1:8787/api/admin/articles/${draft.id}/status`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ status: 'published' }),
+    });
+    expect(pubRes.status).toBe(200);
+
     // find article in DB
     const art = await findArticle(topicId, 'MyArticle');
     const articleId = art?.id ?? null;
-    const filePath = art?.file_path ?? null;
     expect(articleId).not.toBeNull();
-    expect(filePath).not.toBeNull();
+    expect(art.content_url).toBe(`/api/articles/${articleId}/content`);
 
-    // update article via admin (should use mocked getFileSha + updateGitHubFile)
+    // content is served through the backend with an ETag
+    const contentRes = await fetch(`http://127.0.0.1:8787${art.content_url}`);
+    expect(contentRes.status).toBe(200);
+    expect(await contentRes.json()).toEqual(doc('world'));
+    const etag = contentRes.headers.get('ETag');
+    expect(etag).toBeTruthy();
+    const notModified = await fetch(`http://127.0.0.1:8787${art.content_url}`, {
+      headers: { 'If-None-Match': etag as string },
+    });
+    expect(notModified.status).toBe(304);
+
+    // update article via admin
     const updRes = await fetch(`http://127.0.0.1:8787/api/admin/articles/${articleId}`, {
       method: 'PUT',
-      headers: { 'Content-Type': 'application/json', Cookie: cookie, 'x-test-mock-gh': '1' },
-      body: JSON.stringify({ title: 'MyArticle', topicId, content: '{"hello":"updated"}' }),
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'MyArticle', topicId, content: doc('updated') }),
     });
     expect(updRes.status).toBe(200);
 
-    // delete article via admin (should call mocked deleteGitHubFile)
+    // the update purged the cached copy
+    const updatedRes = await fetch(`http://127.0.0.1:8787${art.content_url}`, {
+      headers: { 'If-None-Match': etag as string },
+    });
+    expect(updatedRes.status).toBe(200);
+    expect(await updatedRes.json()).toEqual(doc('updated'));
+
+    // rendered representations
+    const htmlRes = await fetch(`http://127.0.0.1:8787${art.content_url}?format=html`);
+    expect(htmlRes.headers.get('Content-Type')).toContain('text/html');
+    expect(await htmlRes.text()).toBe('<p>updated</p>');
+
+    // delete article via admin
     const delRes = await fetch(`http://127.0.0.1:8787/api/admin/articles/${articleId}`, {
       method: 'DELETE',
-      headers: { Cookie: cookie, 'x-test-mock-gh': '1' },
+      headers: { Cookie: cookie },
     });
     expect(delRes.status).toBe(200);
-    const check = await runSql(`SELECT id FROM articles WHERE id = ${articleId} LIMIT 1;`);
-    expect(check?.results?.length ?? 0).toBe(0);
+    const check = await runSql(`SELECT deleted_at FROM articles WHERE id = ${articleId};`);
+    expect(JSON.stringify(check)).toMatch(/"deleted_at":"\d{4}-/);
+    const trashedRes = await fetch(`http://127.0.0.1:8787${art.content_url}`);
+    expect(trashedRes.status).toBe(404);
+  });
+
+  test('Reconcile report flags rows whose content file is missing', async () => {
+    const cookie = await loginAndGetCookie();
+    const subRes = await fetch('http://127.0.0.1:8787/api/admin/subjects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'RecSub' }),
+    });
+    expect(subRes.status).toBe(201);
+    const subj = await findSubject('RecSub');
+    const topRes = await fetch('http://127.0.0.1:8787/api/admin/topics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ title: 'RecTopic', subjectId: subj?.id }),
+    });
+    expect(topRes.status).toBe(201);
+    const t = await findTopic(subj?.id, 'RecTopic');
+
+    // a row pointing at a file that was never written to the (in-memory) store
+    await runSql(
+      `INSERT INTO articles (topic_id, title, file_path, rank) VALUES (${t?.id}, 'Ghost', 'articles/ghost.json', 'a');`
+    );
+
+    const res = await fetch('http://127.0.0.1:8787/api/admin/reconcile', {
+      headers: { Cookie: cookie },
+    });
+    expect(res.status).toBe(200);
+    const report: any = await res.json();
+    expect(report.missingFiles.map((m: any) => m.file_path)).toContain('articles/ghost.json');
   });
 });
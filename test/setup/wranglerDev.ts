@@ -19,11 +19,12 @@ export async function startWranglerDev(): Promise<void> {
     console.warn('Local migrations may have failed or already applied:', err);
   }
 
-  // Spawn dev server and capture logs to dev.log
-  proc = spawn('npm', ['run', 'dev:local'], {
+  // Spawn dev server and capture logs to dev.log. Article content goes to the
+  // in-memory store so tests never write to a real GitHub repository.
+  proc = spawn('npm', ['run', 'dev:local', '--', '--var', 'CONTENT_STORE:memory'], {
     cwd: process.cwd(),
     stdio: ['ignore', 'pipe', 'pipe'],
-    env: { ...process.env, MOCK_GITHUB: '1' },
+    env: process.env,
   });
 
   const logStream = fs.createWriteStream('dev.log', { flags: 'a' });
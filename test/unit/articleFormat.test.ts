@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import { ArticleContentSchema, parseArticle, renderArticle } from '../../src/articleFormat';
+
+const doc = {
+  version: 1,
+  blocks: [
+    { type: 'heading', level: 2, text: 'Forces & <motion>' },
+    { type: 'paragraph', text: 'F = ma\n\n*Not* markup' },
+    { type: 'code', language: 'python', code: 'print("```")' },
+    { type: 'math', tex: 'E = mc^2', display: true },
+    { type: 'image', src: 'https://example.com/a.png', alt: 'Apple', caption: 'Falling' },
+    { type: 'callout', variant: 'warning', title: 'Careful', text: 'Units matter' },
+  ],
+};
+
+describe('article content validation', () => {
+  test('accepts a document or its JSON text', () => {
+    expect(ArticleContentSchema.safeParse(doc).success).toBe(true);
+    expect(ArticleContentSchema.safeParse(JSON.stringify(doc)).success).toBe(true);
+  });
+
+  test('rejects unknown blocks, free-form JSON and script URLs', () => {
+    const withBlock = (block: object) => ({ version: 1, blocks: [block] });
+    expect(ArticleContentSchema.safeParse(withBlock({ type: 'video', src: 'x' })).success).toBe(
+      false
+    );
+    expect(ArticleContentSchema.safeParse('{"hello":"world"}').success).toBe(false);
+    expect(
+      ArticleContentSchema.safeParse(
+        withBlock({ type: 'image', src: 'javascript:alert(1)', alt: '' })
+      ).success
+    ).toBe(false);
+  });
+});
+
+describe('renderArticle', () => {
+  const content = JSON.stringify(doc);
+
+  test('renders escaped HTML', () => {
+    const html = renderArticle(content, 'html');
+    expect(html).toContain('<h2>Forces &amp; &lt;motion&gt;</h2>');
+    expect(html).toContain('<p>F = ma</p>\n<p>*Not* markup</p>');
+    expect(html).toContain(
+      '<pre><code class="language-python">print(&quot;```&quot;)</code></pre>'
+    );
+    expect(html).toContain('<aside class="callout callout-warning">');
+    expect(html).not.toContain('<motion>');
+  });
+
+  test('renders Markdown with escaping and safe code fences', () => {
+    const md = renderArticle(content, 'markdown');
+    expect(md).toContain('## Forces & \\<motion\\>');
+    expect(md).toContain('\\*Not\\* markup');
+    expect(md).toContain('````python\nprint("```")\n````');
+    expect(md).toContain('$$\nE = mc^2\n$$');
+    expect(md).toContain('![Apple](<https://example.com/a.png> "Falling")');
+    expect(md).toContain('> [!WARNING]\n> **Careful**\n> Units matter');
+  });
+
+  test('shows content from before the format as preformatted text', () => {
+    expect(parseArticle('{"hello":"<b>"}')).toBeNull();
+    expect(renderArticle('{"hello":"<b>"}', 'html')).toBe(
+      '<pre>{&quot;hello&quot;:&quot;&lt;b&gt;&quot;}</pre>'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { describeRoute, listAudit } from '../../src/audit';
+
+describe('describeRoute', () => {
+  test('names the action after the method or the last path segment', () => {
+    expect(describeRoute('PUT', '/api/admin/subjects/:id', '/api/admin/subjects/4')).toEqual({
+      collection: 'subjects',
+      type: 'subject',
+      action: 'update',
+      id: '4',
+      list: null,
+    });
+    expect(
+      describeRoute('POST', '/api/admin/topics/:id/move', '/api/admin/topics/7/move')
+    ).toMatchObject({ type: 'topic', action: 'move', id: '7' });
+    expect(describeRoute('POST', '/api/admin/articles', '/api/admin/articles')).toMatchObject({
+      type: 'article',
+      action: 'create',
+      id: null,
+    });
+  });
+
+  test('keeps nested segments and the parent id', () => {
+    expect(
+      describeRoute(
+        'DELETE',
+        '/api/admin/users/:id/grants/:subjectId',
+        '/api/admin/users/2/grants/9'
+      )
+    ).toMatchObject({ type: 'user', action: 'grants.delete', id: '2' });
+    expect(
+      describeRoute('PUT', '/api/admin/subjects/order', '/api/admin/subjects/order')
+    ).toMatchObject({ type: 'subject', action: 'order', id: null });
+  });
+
+  test('finds the rows of ordering routes in the body or the parent', () => {
+    expect(
+      describeRoute('POST', '/api/admin/topics/reorder', '/api/admin/topics/reorder', {
+        id: 7,
+        afterId: 3,
+      })
+    ).toMatchObject({ type: 'topic', action: 'reorder', id: '7', list: null });
+    expect(
+      describeRoute('PUT', '/api/admin/articles/order', '/api/admin/articles/order', {
+        topicId: 5,
+        ids: [2, 1],
+      })
+    ).toMatchObject({ type: 'topic', action: 'articles.order', id: '5', list: 'articles' });
+    expect(
+      describeRoute(
+        'POST',
+        '/api/admin/subjects/:id/topics/rebalance',
+        '/api/admin/subjects/4/topics/rebalance'
+      )
+    ).toMatchObject({ type: 'subject', action: 'topics.rebalance', id: '4', list: 'topics' });
+    expect(
+      describeRoute('POST', '/api/admin/subjects/rebalance', '/api/admin/subjects/rebalance')
+    ).toMatchObject({ id: null, list: 'subjects' });
+  });
+
+  test('uses the overrides for routes that do not name an entity', () => {
+    expect(describeRoute('POST', '/api/admin/import', '/api/admin/import')).toMatchObject({
+      type: 'curriculum',
+      action: 'import',
+    });
+  });
+});
+
+describe('listAudit', () => {
+  const row = (id: number) => ({
+    id,
+    user_id: 1,
+    username: 'admin',
+    action: 'update',
+    entity_type: 'subject',
+    entity_id: '4',
+    before: '{"title":"Old"}',
+    after: null,
+    request_id: 'req-1',
+    created_at: '2026-10-19T00:00:00.000Z',
+  });
+
+  test('parses the snapshots and returns a cursor when more entries exist', async () => {
+    let params: unknown[] = [];
+    const env = {
+      bodhak: {
+        prepare: () => ({
+          bind: (...values: unknown[]) => {
+            params = values;
+            return { all: async () => ({ results: [row(9), row(8), row(7)] }) };
+          },
+        }),
+      },
+    } as unknown as Env;
+
+    const page = await listAudit(env, { entityType: 'subject', limit: 2 });
+    expect(page.data.map((entry) => entry.id)).toEqual([9, 8]);
+    expect(page.data[0].before).toEqual({ title: 'Old' });
+    expect(page.data[0].after).toBeNull();
+    expect(page.next).toBe(8);
+    expect(params).toEqual([null, 'subject', null, null, null, null, 3]);
+  });
+});
@@ -12,7 +12,29 @@ vi.mock('hono/jwt', () => ({
   verify: async (t: string, s: string) => ({ sub: 'u', role: 'admin' }),
 }));
 
-import { loginHandler, logoutHandler, jwtAuth } from '../../src/auth';
+// Login reads accounts from D1 through the users module; stub it out
+vi.mock('../../src/users', () => ({
+  ensureBootstrapAdmin: vi.fn(async () => undefined),
+  authenticateUser: vi.fn(async (env: any, username: string, password: string) =>
+    username === env.ADMIN_USERNAME && password === env.ADMIN_PASSWORD
+      ? { id: 1, username, disabled: false }
+      : null
+  ),
+}));
+
+// Sessions live in D1 as well
+vi.mock('../../src/sessions', () => ({
+  ACCESS_TOKEN_TTL: 900,
+  REFRESH_TOKEN_TTL: 2592000,
+  createSession: vi.fn(async () => ({ id: 'sid', refreshToken: 'refresh' })),
+  findSessionByRefreshToken: vi.fn(async () => null),
+  isSessionActive: vi.fn(async () => true),
+  revokeSession: vi.fn(async () => true),
+  revokeUserSessions: vi.fn(async () => 1),
+  rotateRefreshToken: vi.fn(async () => null),
+}));
+
+import { loginHandler, logoutHandler, jwtAuth, refreshHandler } from '../../src/auth';
 
 // Minimal Hono Context stub
 function makeCtx(env: any = {}) {
@@ -23,6 +45,7 @@ function makeCtx(env: any = {}) {
       header: (name: string) => null,
     },
     set: vi.fn(),
+    get: (key: string) => (key === 'requestId' ? 'req-test' : undefined),
     json: (body: any, status?: number) => ({ body, status: status ?? 200 }),
   };
   return c;
@@ -37,6 +60,15 @@ describe('auth handlers', () => {
     expect(res.body).toHaveProperty('message');
   });
 
+  test('loginHandler rejects wrong credentials', async () => {
+    const env = { ADMIN_USERNAME: 'u', ADMIN_PASSWORD: 'p', JWT_SECRET: 's' } as any;
+    const c = makeCtx(env);
+    c.req.json = async () => ({ username: 'u', password: 'wrong' });
+    const res = await loginHandler(c);
+    expect(res.status).toBe(401);
+    expect(res.body).toMatchObject({ code: 'unauthorized', requestId: 'req-test' });
+  });
+
   test('logoutHandler returns success', async () => {
     const c = makeCtx();
     const res = await logoutHandler(c as any);
@@ -44,6 +76,12 @@ describe('auth handlers', () => {
     expect(res.body).toHaveProperty('message');
   });
 
+  test('refreshHandler rejects requests without a refresh cookie', async () => {
+    const c = makeCtx();
+    const res = await refreshHandler(c as any);
+    expect(res.status).toBe(401);
+  });
+
   test('jwtAuth returns middleware function', () => {
     const mw = jwtAuth('secret');
     expect(typeof mw).toBe('function');
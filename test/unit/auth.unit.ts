@@ -1,4 +1,26 @@
 import { describe, test, expect, vi } from 'vitest';
+// Login reads accounts from D1 through the users module; stub it out
+vi.mock('../../src/users', () => ({
+  ensureBootstrapAdmin: vi.fn(async () => undefined),
+  authenticateUser: vi.fn(async (env: any, username: string, password: string) =>
+    username === env.ADMIN_USERNAME && password === env.ADMIN_PASSWORD
+      ? { id: 1, username, disabled: false }
+      : null
+  ),
+}));
+
+// Sessions live in D1 as well
+vi.mock('../../src/sessions', () => ({
+  ACCESS_TOKEN_TTL: 900,
+  REFRESH_TOKEN_TTL: 2592000,
+  createSession: vi.fn(async () => ({ id: 'sid', refreshToken: 'refresh' })),
+  findSessionByRefreshToken: vi.fn(async () => null),
+  isSessionActive: vi.fn(async () => true),
+  revokeSession: vi.fn(async () => true),
+  revokeUserSessions: vi.fn(async () => 1),
+  rotateRefreshToken: vi.fn(async () => null),
+}));
+
 import { loginHandler, logoutHandler, jwtAuth } from '../../src/auth';
 
 // We'll create minimal stubs for Hono Context
@@ -26,6 +48,14 @@ describe('auth handlers', () => {
     expect(res.body).toHaveProperty('message');
   });
 
+  test('loginHandler rejects wrong credentials', async () => {
+    const env = { ADMIN_USERNAME: 'u', ADMIN_PASSWORD: 'p', JWT_SECRET: 's' } as any;
+    const c = makeCtx(env);
+    c.req.json = async () => ({ username: 'u', password: 'wrong' });
+    const res = await loginHandler(c);
+    expect(res.status).toBe(401);
+  });
+
   test('logoutHandler returns success', async () => {
     const c = makeCtx();
     const res = await logoutHandler(c as any);
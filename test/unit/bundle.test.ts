@@ -0,0 +1,144 @@
+import { describe, test, expect } from 'vitest';
+import { Curriculum, planImport } from '../../src/bundle';
+import { BundleArticleSchema } from '../../src/schemas';
+import { CurriculumBundle } from '../../src/types';
+
+const current: Curriculum = {
+  subjects: [{ id: 1, title: 'Physics', rank: '0|a' }],
+  topics: [{ id: 10, subject_id: 1, title: 'Motion', rank: '0|a' }],
+  articles: [
+    {
+      id: 100,
+      topic_id: 10,
+      title: 'Newton',
+      file_path: 'articles/newton.json',
+      rank: '0|a',
+      status: 'published',
+      published_at: '2026-01-01T00:00:00.000Z',
+    },
+  ],
+  contents: new Map([[100, 'old']]),
+  // Subject 2 and its topics are in the trash
+  trashedCounts: { subjects: 1, topics: 2, articles: 0 },
+  lastRanks: new Map([
+    ['subject:null', '0|i00000:'],
+    ['topic:1', '0|hzzzzz:'],
+    ['article:10', '0|hzzzzz:'],
+  ]),
+};
+
+const article = (title: string, content: string, file_path = 'articles/newton.json') => ({
+  title,
+  rank: '0|a',
+  status: 'published' as const,
+  published_at: '2026-01-01T00:00:00.000Z',
+  file_path,
+  content,
+});
+
+const bundle: CurriculumBundle = {
+  version: 1,
+  exportedAt: '2026-10-01T00:00:00.000Z',
+  subjects: [
+    {
+      title: 'Physics',
+      rank: '0|a',
+      topics: [
+        {
+          title: 'Motion',
+          rank: '0|a',
+          articles: [article('Newton', 'new'), article('Kepler', 'k', 'articles/newton.json')],
+        },
+      ],
+    },
+    {
+      title: 'Chemistry',
+      rank: '0|b',
+      topics: [
+        { title: 'Bonds', rank: '0|a', articles: [article('Ionic', 'i', 'articles/ionic.json')] },
+      ],
+    },
+  ],
+  unfiledArticles: [],
+};
+
+describe('planImport', () => {
+  test('merge updates matches by title and creates the rest', () => {
+    const plan = planImport(bundle, current, 'merge');
+    expect(plan.report.subjects).toEqual({
+      created: 1,
+      updated: 0,
+      unchanged: 1,
+      deleted: 0,
+      purged: 0,
+    });
+    expect(plan.report.articles).toEqual({
+      created: 2,
+      updated: 1,
+      unchanged: 0,
+      deleted: 0,
+      purged: 0,
+    });
+    expect(plan.articleUpdates[0]).toMatchObject({ id: 100, content: 'new', contentChanged: true });
+    // The bundle path is already taken by Newton, so Kepler gets a fresh one
+    expect(plan.articleInserts[0]).toMatchObject({
+      topic: { id: 10 },
+      file_path: 'articles/kepler-import-1.json',
+    });
+  });
+
+  test('merge ranks new rows after their siblings, trashed ones included', () => {
+    const plan = planImport(bundle, current, 'merge');
+    const [kepler, ionic] = plan.articleInserts;
+    const [chemistry] = plan.subjectInserts;
+    expect(kepler.rank > '0|hzzzzz:').toBe(true);
+    expect(chemistry.rank > '0|i00000:').toBe(true);
+    // Rows under a new parent name it by its rank
+    expect(plan.topicInserts).toEqual([
+      { subject: { rank: chemistry.rank }, title: 'Bonds', rank: expect.any(String) },
+    ]);
+    expect(ionic.topic).toEqual({
+      subject: { rank: chemistry.rank },
+      rank: plan.topicInserts[0].rank,
+    });
+  });
+
+  test('replace recreates everything and reports the deletions', () => {
+    const plan = planImport(bundle, current, 'replace');
+    expect(plan.report.subjects).toEqual({
+      created: 2,
+      updated: 0,
+      unchanged: 0,
+      deleted: 1,
+      purged: 1,
+    });
+    expect(plan.report.articles.deleted).toBe(1);
+    expect(plan.articleInserts.map((a) => a.file_path)).toEqual([
+      'articles/newton.json',
+      'articles/kepler-import-1.json',
+      'articles/ionic.json',
+    ]);
+    expect(new Set(plan.subjectInserts.map((s) => s.rank)).size).toBe(2);
+  });
+});
+
+describe('BundleArticleSchema', () => {
+  test('accepts article documents and missing files only', () => {
+    const doc = JSON.stringify({ version: 1, blocks: [{ type: 'paragraph', text: 'F = ma' }] });
+    const accepts = (content: string | null) =>
+      BundleArticleSchema.safeParse({ ...article('Newton', ''), content }).success;
+    expect(accepts(doc)).toBe(true);
+    expect(accepts(null)).toBe(true);
+    expect(accepts('plain text')).toBe(false);
+    expect(accepts(JSON.stringify({ version: 1, blocks: [] }))).toBe(false);
+  });
+
+  test('keeps file paths inside the articles directory', () => {
+    const accepts = (file_path: string) =>
+      BundleArticleSchema.safeParse({ ...article('Newton', '', file_path), content: null }).success;
+    expect(accepts('articles/newton.v2.json')).toBe(true);
+    expect(accepts('articles/..')).toBe(false);
+    expect(accepts('articles/.')).toBe(false);
+    expect(accepts('articles/../secrets.json')).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { adminApi, ApiClientError, createClient } from '../../src/client';
+
+// fetch stand-in answering every request with `status` and `body`, recording
+// what was sent
+const makeFetch = (status: number, body: unknown) => {
+  const calls: { url: string; init: RequestInit & { credentials?: string } }[] = [];
+  const fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    calls.push({ url: String(input), init });
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+  return { calls, fetch: fetch as typeof globalThis.fetch };
+};
+
+describe('adminApi', () => {
+  test('posts JSON to the route and returns the parsed body', async () => {
+    const { calls, fetch } = makeFetch(201, { message: 'Subject created', id: 7 });
+    const api = adminApi(createClient('https://api.test', { fetch }));
+
+    const created = await api.createSubject({ title: 'Physics' });
+
+    expect(created).toEqual({ message: 'Subject created', id: 7 });
+    expect(calls[0].url).toBe('https://api.test/api/admin/subjects');
+    expect(calls[0].init.method).toBe('POST');
+    expect(JSON.parse(String(calls[0].init.body))).toEqual({ title: 'Physics' });
+    expect(calls[0].init.credentials).toBe('include');
+  });
+
+  test('fills path parameters', async () => {
+    const { calls, fetch } = makeFetch(200, { message: 'Topic moved' });
+    const api = adminApi(createClient('https://api.test', { fetch }));
+
+    await api.moveTopic(3, { subjectId: 9, afterId: 4 });
+    await api.deleteArticle(12);
+
+    expect(calls.map((call) => [call.init.method, call.url])).toEqual([
+      ['POST', 'https://api.test/api/admin/topics/3/move'],
+      ['DELETE', 'https://api.test/api/admin/articles/12'],
+    ]);
+  });
+
+  test('throws the error envelope as an ApiClientError', async () => {
+    const { fetch } = makeFetch(422, {
+      error: 'Subject 9 does not exist',
+      code: 'invalid_reference',
+      requestId: 'req-1',
+    });
+    const api = adminApi(createClient('https://api.test', { fetch }));
+
+    const error = await api.createTopic({ title: 'Motion', subjectId: 9 }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).toMatchObject({
+      status: 422,
+      code: 'invalid_reference',
+      requestId: 'req-1',
+      message: 'Subject 9 does not exist',
+    });
+  });
+
+  test('keeps a body that is not an error envelope in details', async () => {
+    const { fetch } = makeFetch(502, { upstream: 'down' });
+    const api = adminApi(createClient('https://api.test', { fetch }));
+
+    const error = await api.logout().catch((err) => err);
+
+    expect(error).toMatchObject({ status: 502, code: null, details: { upstream: 'down' } });
+  });
+});
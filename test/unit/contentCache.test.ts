@@ -0,0 +1,25 @@
+import { describe, test, expect } from 'vitest';
+import { buildContentResponse, etagFor, etagMatches } from '../../src/contentCache';
+
+describe('article content responses', () => {
+  test('the ETag depends only on the content', async () => {
+    expect(await etagFor('{"a":1}')).toBe(await etagFor('{"a":1}'));
+    expect(await etagFor('{"a":1}')).not.toBe(await etagFor('{"a":2}'));
+  });
+
+  test('If-None-Match accepts lists, weak tags and *', async () => {
+    const etag = await etagFor('x');
+    expect(etagMatches(`"other", W/${etag}`, etag)).toBe(true);
+    expect(etagMatches('*', etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(undefined, etag)).toBe(false);
+  });
+
+  test('JSON content is served as JSON, anything else as text', async () => {
+    const json = await buildContentResponse('{"a":1}');
+    expect(json.headers.get('Content-Type')).toContain('application/json');
+    expect(json.headers.get('Cache-Control')).toMatch(/max-age=\d+/);
+    const text = await buildContentResponse('# Heading');
+    expect(text.headers.get('Content-Type')).toContain('text/plain');
+  });
+});
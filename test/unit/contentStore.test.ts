@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest';
+import { createMemoryStore, getContentStore } from '../../src/contentStore';
+
+describe('memory content store', () => {
+  test('create, update and read back content', async () => {
+    const store = createMemoryStore();
+    await store.create('articles/a.json', 'v1', 'add');
+    expect(await store.update('articles/a.json', 'v2', 'edit')).toBe(true);
+    expect(await store.get('articles/a.json')).toBe('v2');
+  });
+
+  test('create fails when the file exists', async () => {
+    const store = createMemoryStore();
+    await store.create('articles/b.json', 'v1', 'add');
+    await expect(store.create('articles/b.json', 'v1', 'add')).rejects.toThrow();
+  });
+
+  test('update and delete report missing files', async () => {
+    const store = createMemoryStore();
+    expect(await store.update('articles/missing.json', 'v', 'edit')).toBe(false);
+    expect(await store.delete('articles/missing.json', 'delete')).toBe(false);
+  });
+
+  test('history lists revisions newest first and old content stays readable', async () => {
+    const store = createMemoryStore();
+    await store.create('articles/c.json', 'v1', 'add');
+    await store.update('articles/c.json', 'v2', 'edit');
+    const history = await store.history('articles/c.json');
+    expect(history.map((r) => r.message)).toEqual(['edit', 'add']);
+    expect(await store.get('articles/c.json', history[1].sha)).toBe('v1');
+  });
+
+  test('batch writes and removes several files', async () => {
+    const store = createMemoryStore();
+    await store.create('articles/d.json', 'v1', 'add');
+    await store.batch(
+      [
+        { path: 'articles/d.json', content: null },
+        { path: 'articles/e.json', content: 'e' },
+        { path: 'articles/never.json', content: null },
+      ],
+      'bulk'
+    );
+    expect(await store.get('articles/d.json')).toBeNull();
+    expect(await store.get('articles/e.json')).toBe('e');
+  });
+});
+
+describe('getContentStore', () => {
+  test('rejects an unknown CONTENT_STORE', () => {
+    expect(() => getContentStore({ CONTENT_STORE: 'ftp' } as any)).toThrow(/CONTENT_STORE/);
+  });
+});
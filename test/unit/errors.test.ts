@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { Hono } from 'hono';
+import { requestId } from 'hono/request-id';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { ApiError, notFound, onError, toApiError, validationHook } from '../../src/errors';
+
+const makeApp = () => {
+  const app = new Hono();
+  app.use('*', requestId());
+  app.onError(onError);
+  app.notFound(notFound);
+  app.post('/items', zValidator('json', z.object({ title: z.string() }), validationHook), (c) =>
+    c.json(c.req.valid('json'))
+  );
+  app.get('/conflict', () => {
+    throw new ApiError(409, 'Taken');
+  });
+  app.get('/boom', () => {
+    throw new Error('D1_ERROR: no such table: nothing');
+  });
+  return app;
+};
+
+describe('error responses', () => {
+  test('validation failures answer 422 with the failed fields', async () => {
+    const res = await makeApp().request('/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'req-1' },
+      body: JSON.stringify({ title: 3 }),
+    });
+    expect(res.status).toBe(422);
+    const body: any = await res.json();
+    expect(body).toMatchObject({ code: 'validation_failed', requestId: 'req-1' });
+    expect(body.details[0].path).toBe('title');
+  });
+
+  test('malformed JSON answers 400', async () => {
+    const res = await makeApp().request('/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: 'bad_request' });
+  });
+
+  test('thrown errors and unknown routes share the envelope', async () => {
+    const app = makeApp();
+    const conflict = await app.request('/conflict');
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ error: 'Taken', code: 'conflict' });
+
+    const boom = await app.request('/boom');
+    expect(boom.status).toBe(500);
+    const body: any = await boom.json();
+    expect(body.code).toBe('internal_error');
+    expect(body.requestId).toBe(boom.headers.get('X-Request-Id'));
+
+    const missing = await app.request('/nowhere');
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ code: 'not_found' });
+  });
+});
+
+describe('toApiError', () => {
+  test('maps D1 constraint failures to client errors', () => {
+    const unique = toApiError(new Error('UNIQUE constraint failed: subjects.slug'));
+    expect([unique.status, unique.code]).toEqual([409, 'conflict']);
+    const foreign = toApiError(new Error('FOREIGN KEY constraint failed'));
+    expect([foreign.status, foreign.code]).toEqual([422, 'invalid_reference']);
+    expect(toApiError('oops', 'Failed to save').message).toBe('Failed to save: oops');
+  });
+});
@@ -39,6 +39,13 @@ describe('github helpers', () => {
     await expect(github.createGitHubFile(fakeEnv, 'p', 'c', 'm')).rejects.toThrow();
   });
 
+  test('createGitHubFile sends the UTF-8 bytes of non-Latin text', async () => {
+    (globalThis.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+    await github.createGitHubFile(fakeEnv, 'p', 'गति – ✓', 'm');
+    const body = JSON.parse((globalThis.fetch as any).mock.calls[0][1].body);
+    expect(Buffer.from(body.content, 'base64').toString('utf8')).toBe('गति – ✓');
+  });
+
   test('updateGitHubFile throws on non-ok', async () => {
     (globalThis.fetch as any).mockResolvedValueOnce({
       ok: false,
@@ -61,3 +68,111 @@ describe('github helpers', () => {
 afterAll(() => {
   globalThis.fetch = originalFetch;
 });
+
+describe('github revision helpers', () => {
+  const fakeEnv: any = {
+    GITHUB_REPO_OWNER: 'owner',
+    GITHUB_REPO_NAME: 'repo',
+    GITHUB_TOKEN: 'token',
+  };
+
+  test('listFileCommits maps commits for the file path', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        { sha: 'c1', commit: { message: 'Updated', author: { name: 'A', date: '2025-01-01' } } },
+      ],
+    });
+    const commits = await github.listFileCommits(fakeEnv, 'articles/a.json');
+    expect(commits).toEqual([{ sha: 'c1', message: 'Updated', author: 'A', date: '2025-01-01' }]);
+    expect((globalThis.fetch as any).mock.calls[0][0]).toContain('path=articles%2Fa.json');
+  });
+
+  test('getFileContent decodes content at a ref', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ content: btoa('{"hello":"world"}') }),
+    });
+    const content = await github.getFileContent(fakeEnv, 'articles/a.json', 'c1');
+    expect(content).toBe('{"hello":"world"}');
+    expect((globalThis.fetch as any).mock.calls[0][0]).toContain('?ref=c1');
+  });
+
+  test('getFileContent returns null when 404', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({ ok: false, status: 404 });
+    expect(await github.getFileContent(fakeEnv, 'p', 'c1')).toBeNull();
+  });
+});
+
+describe('github listing helper', () => {
+  const fakeEnv: any = {
+    GITHUB_REPO_OWNER: 'owner',
+    GITHUB_REPO_NAME: 'repo',
+    GITHUB_TOKEN: 'token',
+  };
+
+  test('listGitHubFiles returns file paths from a fake repo listing', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        { type: 'file', path: 'articles/a.json' },
+        { type: 'dir', path: 'articles/images' },
+      ],
+    });
+    expect(await github.listGitHubFiles(fakeEnv, 'articles')).toEqual(['articles/a.json']);
+    expect((globalThis.fetch as any).mock.calls[0][0]).toBe(
+      'https://api.github.com/repos/owner/repo/contents/articles'
+    );
+  });
+
+  test('listGitHubFiles returns an empty list when the directory is missing', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({ ok: false, status: 404 });
+    expect(await github.listGitHubFiles(fakeEnv, 'articles')).toEqual([]);
+  });
+});
+
+describe('github batch commits', () => {
+  const fakeEnv: any = {
+    GITHUB_REPO_OWNER: 'owner',
+    GITHUB_REPO_NAME: 'repo',
+    GITHUB_TOKEN: 'token',
+    GITHUB_REPO_BRANCH: 'main',
+  };
+  const ok = (body: any) => ({ ok: true, json: async () => body });
+
+  test('commitGitHubChanges writes every change in one commit', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(ok({ object: { sha: 'head' } }))
+      .mockResolvedValueOnce(ok({ sha: 'head', tree: { sha: 'base' } }))
+      .mockResolvedValueOnce(ok({ tree: [{ path: 'articles/old.json' }] }))
+      .mockResolvedValueOnce(ok({ sha: 'tree2' }))
+      .mockResolvedValueOnce(ok({ sha: 'commit2' }))
+      .mockResolvedValueOnce(ok({}));
+
+    const sha = await github.commitGitHubChanges(
+      fakeEnv,
+      [
+        { path: 'articles/new.json', content: '{}' },
+        { path: 'articles/old.json', content: null },
+        { path: 'articles/gone.json', content: null },
+      ],
+      'Bulk change'
+    );
+
+    expect(sha).toBe('commit2');
+    const calls = (globalThis.fetch as any).mock.calls;
+    expect(calls).toHaveLength(6);
+    expect(JSON.parse(calls[3][1].body).tree).toEqual([
+      { path: 'articles/new.json', mode: '100644', type: 'blob', content: '{}' },
+      { path: 'articles/old.json', mode: '100644', type: 'blob', sha: null },
+    ]);
+    expect(calls[5][0]).toBe('https://api.github.com/repos/owner/repo/git/refs/heads/main');
+    expect(JSON.parse(calls[5][1].body)).toEqual({ sha: 'commit2', force: false });
+  });
+
+  test('commitGitHubChanges does nothing without changes', async () => {
+    expect(await github.commitGitHubChanges(fakeEnv, [], 'Nothing')).toBeNull();
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'vitest';
 import { LexoRank } from '@dalet-oss/lexorank';
-import { calculateNewRank } from '../../src/index';
+import { app, calculateNewRank } from '../../src/index';
+import { ROUTES } from '../../src/openapi';
 
 describe('calculateNewRank', () => {
   test('between two ranks', () => {
@@ -28,3 +29,14 @@ describe('calculateNewRank', () => {
     expect(r).toBeUndefined();
   });
 });
+
+describe('OpenAPI document', () => {
+  test('documents exactly the routes of the app', () => {
+    const routes = app.routes
+      .filter((route) => route.method !== 'ALL')
+      .map((route) => `${route.method} ${route.path}`);
+    const documented = ROUTES.map((route) => `${route.method.toUpperCase()} ${route.path}`);
+    expect(routes.filter((route) => !documented.includes(route))).toEqual([]);
+    expect(documented.filter((route) => !routes.includes(route))).toEqual([]);
+  });
+});
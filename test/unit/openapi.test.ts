@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import { buildOpenApiDocument, docsPage, ROUTES } from '../../src/openapi';
+
+const doc = buildOpenApiDocument();
+const operations = Object.values(doc.paths).flatMap((ops) => Object.values(ops)) as any[];
+
+// Every `$ref` in a value, e.g. '#/components/schemas/Subject'
+const refs = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(refs);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, v]) =>
+      key === '$ref' && typeof v === 'string' ? [v] : refs(v)
+    );
+  }
+  return [];
+};
+
+describe('buildOpenApiDocument', () => {
+  test('has one operation per route with OpenAPI path templates', () => {
+    expect(doc.openapi).toBe('3.1.0');
+    expect(operations).toHaveLength(ROUTES.length);
+    expect(doc.paths['/api/admin/topics/{id}/move']).toHaveProperty('post');
+    expect(Object.keys(doc.paths).some((path) => path.includes(':'))).toBe(false);
+  });
+
+  test('resolves every reference', () => {
+    for (const ref of refs(doc)) {
+      const [, , section, name] = ref.split('/');
+      expect((doc.components as any)[section], ref).toHaveProperty(name);
+    }
+  });
+
+  test('takes request bodies and query parameters from the route schemas', () => {
+    const create = doc.components.schemas.SubjectInput as any;
+    expect(create.properties.title).toMatchObject({ type: 'string', minLength: 1 });
+
+    const reorder = doc.components.schemas.ReorderInput as any;
+    expect(reorder.required).toEqual(['id']);
+
+    const list = (doc.paths['/api/subjects'] as any).get;
+    expect(list.parameters.map((p: any) => p.name)).toEqual(['limit', 'cursor', 'title', 'fields']);
+    expect(list.parameters[0].schema).toMatchObject({ type: 'integer', maximum: 100 });
+  });
+
+  test('describes auth requirements and the errors a route can answer', () => {
+    const publicList = (doc.paths['/api/subjects'] as any).get;
+    expect(publicList.security).toBeUndefined();
+    expect(Object.keys(publicList.responses)).toEqual(['200', '422', '429', '500']);
+
+    const deleteSubject = (doc.paths['/api/admin/subjects/{id}'] as any).delete;
+    expect(deleteSubject.security).toEqual([{ cookieAuth: [] }]);
+    expect(deleteSubject['x-required-role']).toBe('owner');
+    expect(deleteSubject.responses['403']).toEqual({ $ref: '#/components/responses/Forbidden' });
+    expect(deleteSubject.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+
+    const webhook = (doc.paths['/webhooks/github'] as any).post;
+    expect(webhook.security).toEqual([{ githubSignature: [] }]);
+  });
+
+  test('gives errors the envelope of src/errors.ts', () => {
+    const error = doc.components.schemas.Error as any;
+    expect(error.required).toEqual(['error', 'code', 'requestId']);
+    expect(error.properties.code.enum).toContain('invalid_reference');
+    expect(doc.components.responses.ValidationFailed.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/ValidationError',
+    });
+  });
+
+  test('documents list routes as arrays of their model', () => {
+    const users = (doc.paths['/api/admin/users'] as any).get.responses['200'];
+    expect(users.content['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/User' },
+    });
+  });
+});
+
+describe('docsPage', () => {
+  test('points the UI at the document', () => {
+    expect(docsPage('/openapi.json')).toContain('url: "/openapi.json"');
+  });
+
+  test('loads a pinned Swagger UI with integrity hashes', () => {
+    const page = docsPage('/openapi.json');
+    expect(page).toMatch(/swagger-ui-dist@\d+\.\d+\.\d+\//);
+    expect(page.match(/integrity="sha384-/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect, vi } from 'vitest';
+
+vi.mock('../../src/contentStore', () => ({
+  getContentStore: () => ({
+    update: async () => {
+      throw new Error('store down');
+    },
+  }),
+}));
+
+import { processOutboxEntry } from '../../src/outbox';
+
+// Fake D1 binding: the claim returns `entry`, every other read finds nothing,
+// and batches are recorded
+function makeEnv(entry: Record<string, unknown>) {
+  const batches: Array<Array<{ sql: string; params: unknown[] }>> = [];
+  const statement = (sql: string, params: unknown[] = []) => ({
+    sql,
+    params,
+    bind: (...values: unknown[]) => statement(sql, values),
+    first: async () => (sql.includes('RETURNING *') ? entry : null),
+    run: async () => ({ meta: { changes: 1 } }),
+  });
+  const env = {
+    bodhak: {
+      prepare: (sql: string) => statement(sql),
+      batch: async (statements: Array<{ sql: string; params: unknown[] }>) => {
+        batches.push(statements.map(({ sql, params }) => ({ sql, params })));
+        return [];
+      },
+    },
+  } as unknown as Env;
+  return { env, batches };
+}
+
+describe('processOutboxEntry', () => {
+  test('a failed update puts the old slug back and drops its redirect', async () => {
+    const { env, batches } = makeEnv({
+      id: 3,
+      kind: 'article_update',
+      article_id: 12,
+      path: 'articles/newton.json',
+      content: '{}',
+      message: 'Updated article: Newton',
+      rollback: JSON.stringify({ title: 'Newton', topic_id: 4, slug: 'newton' }),
+      attempts: 1,
+    });
+
+    const outcome = await processOutboxEntry(env, 3, { compensateOnFailure: true });
+    expect(outcome).toEqual({ state: 'compensated', error: 'store down' });
+    expect(batches).toHaveLength(1);
+    const [update, redirect] = batches[0];
+    expect(update.params).toEqual(['Newton', 4, 'newton', 12]);
+    expect(redirect.sql).toContain('DELETE FROM slug_redirects');
+    expect(redirect.params).toEqual([4, 'newton', 12]);
+  });
+
+  test('a failed import update puts the old status back', async () => {
+    const { env, batches } = makeEnv({
+      id: 4,
+      kind: 'article_update',
+      article_id: 12,
+      path: 'articles/newton.json',
+      content: '{}',
+      message: 'Imported article: Newton',
+      rollback: JSON.stringify({ status: 'draft', published_at: null }),
+      attempts: 1,
+    });
+
+    const outcome = await processOutboxEntry(env, 4, { compensateOnFailure: true });
+    expect(outcome.state).toBe('compensated');
+    expect(batches[0]).toEqual([
+      {
+        sql: 'UPDATE articles SET status = ?, published_at = ? WHERE id = ?',
+        params: ['draft', null, 12],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, test, expect } from 'vitest';
+import { decodeCursor, encodeCursor } from '../../src/pagination';
+
+describe('cursors', () => {
+  test('round-trip the rank and id of the last row', () => {
+    const cursor = encodeCursor({ rank: '0|hzzzzz:', id: 42 });
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ rank: '0|hzzzzz:', id: 42 });
+  });
+
+  test('reject anything else', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(btoa(JSON.stringify({ rank: 'a' })))).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, test, expect, vi } from 'vitest';
+import { authorize, checkRole, roleAtLeast } from '../../src/permissions';
+
+// Fake D1 binding whose `first()` always resolves to the given row
+function makeDb(row: any) {
+  return {
+    prepare: () => ({ bind: () => ({ first: async () => row }) }),
+  };
+}
+
+function makeCtx(row: any) {
+  const c: any = {
+    env: { bodhak: makeDb(row) },
+    get: () => ({ sub: '1', username: 'u', role: 'viewer' }),
+    req: { param: () => '7' },
+    json: (body: any, status?: number) => ({ body, status: status ?? 200 }),
+  };
+  return c;
+}
+
+describe('roleAtLeast', () => {
+  test('orders roles from viewer to owner', () => {
+    expect(roleAtLeast('owner', 'editor')).toBe(true);
+    expect(roleAtLeast('author', 'author')).toBe(true);
+    expect(roleAtLeast('viewer', 'author')).toBe(false);
+  });
+});
+
+describe('authorize', () => {
+  const scope = async () => [7];
+
+  test('allows a subject grant above the global role', async () => {
+    const next = vi.fn();
+    const c = makeCtx({ role: 'viewer', disabled: 0, grant_role: 'editor' });
+    await authorize('editor', scope)(c, next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  test('rejects with 403 and names the missing role', async () => {
+    const next = vi.fn();
+    const c = makeCtx({ role: 'viewer', disabled: 0, grant_role: 'author' });
+    const res: any = await authorize('editor', scope)(c, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toBe(403);
+    expect(res.body.error).toContain('editor role on subject 7');
+  });
+
+  test('rejects disabled accounts', async () => {
+    const next = vi.fn();
+    const c = makeCtx({ role: 'owner', disabled: 1, grant_role: null });
+    const res: any = await authorize('viewer')(c, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('checkRole', () => {
+  test('returns null when the role is enough and a 403 otherwise', async () => {
+    const editor = makeCtx({ role: 'author', disabled: 0, grant_role: 'editor' });
+    expect(await checkRole(editor, 'editor', 7)).toBeNull();
+    const author = makeCtx({ role: 'author', disabled: 0, grant_role: null });
+    const res: any = await checkRole(author, 'editor', 7);
+    expect(res.status).toBe(403);
+  });
+});
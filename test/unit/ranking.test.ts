@@ -0,0 +1,179 @@
+import { describe, test, expect } from 'vitest';
+import { LexoRank } from '@dalet-oss/lexorank';
+import {
+  evenRanks,
+  MAX_RANK_LENGTH,
+  moveItem,
+  planReorder,
+  rankBetween,
+  setOrder,
+  withTrashed,
+} from '../../src/ranking';
+
+const siblings = [
+  { id: 1, rank: 'a' },
+  { id: 2, rank: 'b' },
+  { id: 3, rank: 'c' },
+  { id: 4, rank: 'd' },
+];
+const ids = (plan: ReturnType<typeof planReorder>) =>
+  'error' in plan ? plan.error : plan.order.map((row) => row.id);
+
+describe('planReorder', () => {
+  test('places the item after or before a sibling', () => {
+    expect(ids(planReorder(siblings, 1, { afterId: 3 }))).toEqual([2, 3, 1, 4]);
+    expect(ids(planReorder(siblings, 4, { beforeId: 1 }))).toEqual([4, 1, 2, 3]);
+  });
+
+  test('takes the other neighbour from the current list', () => {
+    const plan = planReorder(siblings, 1, { afterId: 3 });
+    expect('error' in plan ? null : [plan.prev?.id, plan.next?.id]).toEqual([3, 4]);
+    const last = planReorder(siblings, 1, { afterId: 4 });
+    expect('error' in last ? null : last.next).toBeUndefined();
+  });
+
+  test('accepts both neighbours only when they are adjacent', () => {
+    expect(ids(planReorder(siblings, 4, { afterId: 1, beforeId: 2 }))).toEqual([1, 4, 2, 3]);
+    expect(planReorder(siblings, 4, { afterId: 1, beforeId: 3 })).toHaveProperty('error');
+  });
+
+  test('rejects neighbours that are not siblings', () => {
+    expect(planReorder(siblings, 1, { afterId: 99 })).toHaveProperty('error');
+    expect(planReorder(siblings, 1, { beforeId: 1 })).toHaveProperty('error');
+  });
+
+  test('puts the item last when no neighbour is given', () => {
+    expect(ids(planReorder(siblings, 2, {}))).toEqual([1, 3, 4, 2]);
+  });
+});
+
+describe('rankBetween', () => {
+  test('returns a rank strictly between the neighbours', () => {
+    const prev = LexoRank.middle().toString();
+    const next = LexoRank.middle().genNext().toString();
+    const rank = rankBetween(prev, next) as string;
+    expect(rank > prev && rank < next).toBe(true);
+  });
+
+  test('asks for a rebalance when the neighbours share a rank', () => {
+    const rank = LexoRank.middle().toString();
+    expect(rankBetween(rank, rank)).toBeNull();
+  });
+
+  test('asks for a rebalance once ranks get too long', () => {
+    let prev = LexoRank.middle().toString();
+    const next = LexoRank.middle().genNext().toString();
+    let rank = rankBetween(prev, next);
+    while (rank) {
+      expect(rank.length).toBeLessThanOrEqual(MAX_RANK_LENGTH);
+      prev = rank;
+      rank = rankBetween(prev, next);
+    }
+    expect(rank).toBeNull();
+  });
+});
+
+describe('evenRanks', () => {
+  test('returns increasing ranks of the same length', () => {
+    const ranks = evenRanks(5);
+    expect(ranks).toHaveLength(5);
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(new Set(ranks.map((rank) => rank.length)).size).toBe(1);
+  });
+});
+
+describe('withTrashed', () => {
+  test('puts each trashed row back after the live row it followed', () => {
+    const all = [
+      { id: 9, rank: '0', trashed: 1 },
+      { id: 1, rank: 'a' },
+      { id: 5, rank: 'b', trashed: 1 },
+      { id: 6, rank: 'c', trashed: 1 },
+      { id: 2, rank: 'd' },
+    ];
+    const order = withTrashed(all, [all[4], all[1]]);
+    expect(order.map((row) => row.id)).toEqual([9, 2, 1, 5, 6]);
+  });
+});
+
+describe('setOrder', () => {
+  // D1 stand-in holding `siblings` as the children; records batched writes
+  const makeEnv = () => {
+    const batches: unknown[][] = [];
+    const bodhak = {
+      prepare: () => ({
+        bind: () => ({ all: async () => ({ results: siblings }) }),
+      }),
+      batch: async (statements: unknown[]) => {
+        batches.push(statements);
+        return [];
+      },
+    };
+    return { env: { bodhak } as unknown as Env, batches };
+  };
+
+  test('assigns increasing ranks in the given order', async () => {
+    const { env, batches } = makeEnv();
+    const result = await setOrder(env, 'topic', 1, [3, 1, 4, 2]);
+    if ('error' in result) throw new Error(result.error);
+    expect(result.ranks.map((r) => r.id)).toEqual([3, 1, 4, 2]);
+    const ranks = result.ranks.map((r) => r.rank);
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(batches).toHaveLength(1);
+  });
+
+  test('rejects lists that are not exactly the children', async () => {
+    const { env, batches } = makeEnv();
+    expect(await setOrder(env, 'topic', 1, [1, 2, 3])).toHaveProperty('error');
+    expect(await setOrder(env, 'topic', 1, [1, 2, 3, 4, 5])).toHaveProperty('error');
+    expect(await setOrder(env, 'topic', 1, [1, 2, 3, 3])).toHaveProperty('error');
+    expect(batches).toHaveLength(0);
+  });
+});
+
+describe('moveItem', () => {
+  // D1 stand-in: the moved item and the destination's children, with real ranks
+  const makeEnv = () => {
+    const [first, second, moved] = evenRanks(3);
+    const children = [
+      { id: 10, rank: first },
+      { id: 11, rank: second },
+    ];
+    const batches: { sql: string; params: unknown[] }[][] = [];
+    const bodhak = {
+      prepare: (sql: string) => ({
+        bind: (...params: unknown[]) => ({
+          sql,
+          params,
+          first: async () => ({ rank: moved }),
+          all: async () => ({ results: children }),
+        }),
+      }),
+      batch: async (statements: { sql: string; params: unknown[] }[]) => {
+        batches.push(statements);
+        return [];
+      },
+    };
+    return { env: { bodhak } as unknown as Env, batches, children };
+  };
+
+  test('sets the new parent and a rank between the neighbours in one batch', async () => {
+    const { env, batches, children } = makeEnv();
+    const extra = env.bodhak.prepare('UPDATE topics SET slug = ? WHERE id = ?').bind('x', 1);
+    const result = await moveItem(env, 'topic', 1, 5, { afterId: 10 }, [extra]);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.position).toBe(1);
+    expect(result.rank > children[0].rank && result.rank < children[1].rank).toBe(true);
+    expect(batches).toHaveLength(1);
+    expect(batches[0][0].sql).toContain('SET subject_id = ?, rank = ?');
+    expect(batches[0][0].params).toEqual([5, result.rank, 1]);
+    expect(batches[0].at(-1)).toBe(extra);
+  });
+
+  test('rejects neighbours from outside the destination', async () => {
+    const { env, batches } = makeEnv();
+    expect(await moveItem(env, 'topic', 1, 5, { afterId: 99 })).toHaveProperty('status', 422);
+    expect(batches).toHaveLength(0);
+  });
+});
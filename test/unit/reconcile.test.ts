@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { diffArticles } from '../../src/reconcile';
+
+const row = (id: number, file_path: string) => ({
+  id,
+  title: `A${id}`,
+  file_path,
+  status: 'draft',
+});
+
+describe('diffArticles', () => {
+  test('reports orphaned files, missing files and duplicates', () => {
+    const report = diffArticles(
+      [row(1, 'articles/a.json'), row(2, 'articles/b.json'), row(3, 'articles/a.json')],
+      ['articles/a.json', 'articles/orphan.json']
+    );
+    expect(report.orphanedFiles).toEqual(['articles/orphan.json']);
+    expect(report.missingFiles).toEqual([{ id: 2, title: 'A2', file_path: 'articles/b.json' }]);
+    expect(report.duplicates).toEqual([{ file_path: 'articles/a.json', articleIds: [1, 3] }]);
+  });
+
+  test('ignores paths with pending outbox operations', () => {
+    const report = diffArticles(
+      [row(1, 'articles/new.json')],
+      ['articles/deleted.json'],
+      new Set(['articles/new.json', 'articles/deleted.json'])
+    );
+    expect(report.orphanedFiles).toEqual([]);
+    expect(report.missingFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { extractText, markMatches, toMatchQuery } from '../../src/search';
+
+describe('toMatchQuery', () => {
+  test('quotes every word and makes the last one a prefix', () => {
+    expect(toMatchQuery('newton laws')).toBe('"newton" "laws"*');
+  });
+
+  test('drops FTS5 syntax from the input', () => {
+    expect(toMatchQuery('title:force OR "mass')).toBe('"title" "force" "OR" "mass"*');
+    expect(toMatchQuery('*** ()')).toBe('');
+  });
+});
+
+describe('extractText', () => {
+  test('indexes the string values of JSON content', () => {
+    expect(extractText(JSON.stringify({ body: 'Force', meta: { note: 'mass' }, n: 1 }))).toBe(
+      'Force\nmass'
+    );
+  });
+
+  test('indexes other content as is', () => {
+    expect(extractText('# Plain markdown')).toBe('# Plain markdown');
+  });
+});
+
+describe('markMatches', () => {
+  test('escapes markup in the indexed text and keeps only the match tags', () => {
+    const body = 'x <img src=x onerror="alert(1)"> \u0002force\u0003 <script>';
+    expect(markMatches(body)).toBe(
+      'x &lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>force</mark> &lt;script&gt;'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import { renameSlug, slugify, uniqueSlug } from '../../src/slugs';
+
+// D1 stand-in whose every query returns `slugs` as the taken slugs, recording
+// the statements that were prepared
+const makeEnv = (slugs: string[]) => {
+  const prepared: { sql: string; params: unknown[] }[] = [];
+  const bodhak = {
+    prepare: (sql: string) => ({
+      bind: (...params: unknown[]) => {
+        prepared.push({ sql, params });
+        return { all: async () => ({ results: slugs.map((slug) => ({ slug })) }) };
+      },
+    }),
+  };
+  return { env: { bodhak } as unknown as Env, prepared };
+};
+
+describe('slugify', () => {
+  test('lowercases and joins words with dashes', () => {
+    expect(slugify("Newton's Laws: Part 1")).toBe('newtons-laws-part-1');
+    expect(slugify('  --Hello   World--  ')).toBe('hello-world');
+  });
+
+  test('drops Latin accents but keeps other scripts', () => {
+    expect(slugify('Équations du 2ᵉ degré')).toBe('equations-du-2e-degre');
+    expect(slugify('गति के नियम')).toBe('गति-के-नियम');
+  });
+
+  test('limits the length without a trailing dash', () => {
+    const slug = slugify(`${'a'.repeat(79)} b`);
+    expect(slug).toBe('a'.repeat(79));
+  });
+
+  test('falls back when nothing is left', () => {
+    expect(slugify('!!!')).toBe('untitled');
+  });
+});
+
+describe('uniqueSlug', () => {
+  test('numbers the slug when it is taken', async () => {
+    const { env } = makeEnv(['motion', 'motion-2']);
+    expect(await uniqueSlug(env, 'topic', 1, 'Motion')).toBe('motion-3');
+  });
+
+  test('uses the plain slug when it is free', async () => {
+    const { env } = makeEnv(['motion-2']);
+    expect(await uniqueSlug(env, 'topic', 1, 'Motion')).toBe('motion');
+  });
+});
+
+describe('renameSlug', () => {
+  const row = { id: 7, title: 'Motion', slug: 'motion', scopeId: 1 };
+
+  test('keeps the slug when the title slugifies the same', async () => {
+    const { env, prepared } = makeEnv([]);
+    expect(await renameSlug(env, 'topic', row, 'MOTION!')).toEqual({
+      slug: 'motion',
+      statements: [],
+    });
+    expect(prepared).toEqual([]);
+  });
+
+  test('redirects the old slug after a rename', async () => {
+    const { env, prepared } = makeEnv([]);
+    const { slug, statements } = await renameSlug(env, 'topic', row, 'Kinematics');
+    expect(slug).toBe('kinematics');
+    expect(statements).toHaveLength(1);
+    expect(prepared[1].params).toEqual(['topic', 1, 'motion', 7]);
+  });
+
+  test('redirects from the old parent after a move', async () => {
+    const { env, prepared } = makeEnv([]);
+    const { slug, statements } = await renameSlug(env, 'topic', row, 'Motion', 2);
+    expect(slug).toBe('motion');
+    expect(statements).toHaveLength(1);
+    expect(prepared[1].params).toEqual(['topic', 1, 'motion', 7]);
+  });
+});
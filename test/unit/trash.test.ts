@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'vitest';
+import { moveToTrash, restoreFromTrash } from '../../src/trash';
+
+// D1 stand-in: first() answers `state`; batch() records the statements and
+// returns `articleIds` as the rows of the last one
+const makeEnv = (
+  state: { deleted_at: string | null; parent_deleted_at: string | null } | null,
+  articleIds: number[] = []
+) => {
+  const batches: { sql: string; params: unknown[] }[][] = [];
+  const bodhak = {
+    prepare: (sql: string) => ({
+      bind: (...params: unknown[]) => ({ sql, params, first: async () => state }),
+    }),
+    batch: async (statements: { sql: string; params: unknown[] }[]) => {
+      batches.push(statements);
+      return statements.map((_, i) =>
+        i === statements.length - 1
+          ? { results: articleIds.map((id) => ({ id })) }
+          : { results: [] }
+      );
+    },
+  };
+  return { env: { bodhak } as unknown as Env, batches };
+};
+
+describe('moveToTrash', () => {
+  test('stamps the live rows of the subtree with one time', async () => {
+    const { env, batches } = makeEnv({ deleted_at: null, parent_deleted_at: null }, [7, 8]);
+    const result = await moveToTrash(env, 'topic', 3);
+
+    expect(result?.articleIds).toEqual([7, 8]);
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map((s) => s.sql.split(' ')[1])).toEqual(['topics', 'articles']);
+    for (const statement of batches[0]) {
+      expect(statement.params).toEqual([result?.deletedAt, null, 3]);
+    }
+  });
+
+  test('returns null for missing or already trashed rows', async () => {
+    expect(await moveToTrash(makeEnv(null).env, 'article', 1)).toBeNull();
+    const trashed = makeEnv({ deleted_at: '2026-01-01T00:00:00.000Z', parent_deleted_at: null });
+    expect(await moveToTrash(trashed.env, 'article', 1)).toBeNull();
+    expect(trashed.batches).toHaveLength(0);
+  });
+});
+
+describe('restoreFromTrash', () => {
+  const deletedAt = '2026-01-01T00:00:00.000Z';
+
+  test('clears only the rows deleted together with the item', async () => {
+    const { env, batches } = makeEnv({ deleted_at: deletedAt, parent_deleted_at: null }, [7]);
+    const result = await restoreFromTrash(env, 'subject', 2);
+
+    expect(result).toEqual({ restoredFrom: deletedAt, articleIds: [7] });
+    expect(batches[0]).toHaveLength(3);
+    for (const statement of batches[0]) expect(statement.params).toEqual([null, deletedAt, 2]);
+  });
+
+  test('refuses items outside the trash or under a trashed parent', async () => {
+    const live = makeEnv({ deleted_at: null, parent_deleted_at: null });
+    expect(await restoreFromTrash(live.env, 'topic', 1)).toHaveProperty('status', 404);
+    const orphan = makeEnv({ deleted_at: deletedAt, parent_deleted_at: deletedAt });
+    expect(await restoreFromTrash(orphan.env, 'topic', 1)).toHaveProperty('status', 409);
+    expect(orphan.batches).toHaveLength(0);
+  });
+});
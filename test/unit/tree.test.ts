@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'vitest';
+import { buildTree, buildTreeResponse } from '../../src/tree';
+
+// D1 stand-in: batch() answers subjects, topics and articles in that order
+const makeEnv = (subjects: object[], topics: object[], articles: object[]) =>
+  ({
+    bodhak: {
+      prepare: (sql: string) => sql,
+      batch: async () => [{ results: subjects }, { results: topics }, { results: articles }],
+    },
+  }) as unknown as Env;
+
+describe('buildTree', () => {
+  test('nests rows under their parents in the order given', async () => {
+    const env = makeEnv(
+      [
+        { id: 1, title: 'Physics', slug: 'physics', rank: 'a' },
+        { id: 2, title: 'Maths', slug: 'maths', rank: 'b' },
+      ],
+      [
+        { id: 10, subject_id: 1, title: 'Motion', slug: 'motion', rank: 'a' },
+        { id: 11, subject_id: 1, title: 'Heat', slug: 'heat', rank: 'b' },
+      ],
+      [
+        {
+          id: 100,
+          topic_id: 10,
+          title: 'Speed',
+          slug: 'speed',
+          rank: 'a',
+          published_at: '2026-01-01T00:00:00.000Z',
+          content_url: '/api/articles/100/content',
+        },
+      ]
+    );
+
+    expect(await buildTree(env)).toEqual([
+      {
+        id: 1,
+        title: 'Physics',
+        slug: 'physics',
+        rank: 'a',
+        topics: [
+          {
+            id: 10,
+            title: 'Motion',
+            slug: 'motion',
+            rank: 'a',
+            articles: [
+              {
+                id: 100,
+                title: 'Speed',
+                slug: 'speed',
+                rank: 'a',
+                published_at: '2026-01-01T00:00:00.000Z',
+                content_url: '/api/articles/100/content',
+              },
+            ],
+          },
+          { id: 11, title: 'Heat', slug: 'heat', rank: 'b', articles: [] },
+        ],
+      },
+      { id: 2, title: 'Maths', slug: 'maths', rank: 'b', topics: [] },
+    ]);
+  });
+});
+
+describe('buildTreeResponse', () => {
+  test('tags the response with a hash of the tree', async () => {
+    const tree = [{ id: 1, title: 'Physics', slug: 'physics', rank: 'a', topics: [] }];
+    const first = await buildTreeResponse(tree);
+    const same = await buildTreeResponse(structuredClone(tree));
+    const renamed = await buildTreeResponse([{ ...tree[0], title: 'Mechanics' }]);
+
+    expect(first.headers.get('ETag')).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(same.headers.get('ETag')).toBe(first.headers.get('ETag'));
+    expect(renamed.headers.get('ETag')).not.toBe(first.headers.get('ETag'));
+  });
+});
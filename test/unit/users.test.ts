@@ -0,0 +1,34 @@
+import { describe, test, expect, vi } from 'vitest';
+import { authenticateUser, hashPassword, verifyPassword } from '../../src/users';
+
+describe('password hashing', () => {
+  test('verifies the original password', async () => {
+    const { hash, salt, iterations } = await hashPassword('correct horse');
+    expect(await verifyPassword('correct horse', hash, salt, iterations)).toBe(true);
+  });
+
+  test('rejects a different password', async () => {
+    const { hash, salt, iterations } = await hashPassword('correct horse');
+    expect(await verifyPassword('battery staple', hash, salt, iterations)).toBe(false);
+  });
+
+  test('uses a fresh salt for every hash', async () => {
+    const a = await hashPassword('same');
+    const b = await hashPassword('same');
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.hash).not.toBe(b.hash);
+  });
+});
+
+describe('authenticateUser', () => {
+  test('derives a hash even when the username is unknown', async () => {
+    const statement = { bind: () => statement, first: async () => null };
+    const env = { bodhak: { prepare: () => statement } } as unknown as Env;
+    const deriveBits = vi.spyOn(crypto.subtle, 'deriveBits');
+
+    expect(await authenticateUser(env, 'nobody', 'guess')).toBeNull();
+    expect(deriveBits).toHaveBeenCalledTimes(1);
+    expect(deriveBits.mock.calls[0][0]).toMatchObject({ iterations: 100000 });
+    deriveBits.mockRestore();
+  });
+});
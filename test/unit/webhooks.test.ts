@@ -0,0 +1,83 @@
+import { describe, test, expect, vi } from 'vitest';
+
+vi.mock('@dalet-oss/lexorank', () => ({
+  LexoRank: { middle: () => ({ toString: () => '0|hzzzzz:' }) },
+}));
+vi.mock('../../src/contentStore', () => ({
+  getContentStore: () => ({ get: async () => '{"body":"Inertia"}' }),
+}));
+vi.mock('../../src/contentCache', () => ({ purgeArticleContent: async () => {} }));
+
+import { applyPushEvent, titleFromPath, verifySignature } from '../../src/webhooks';
+
+async function sign(secret: string, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  return 'sha256=' + Array.from(mac, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('verifySignature', () => {
+  const body = JSON.stringify({ ref: 'refs/heads/main' });
+
+  test('accepts a valid signature', async () => {
+    expect(await verifySignature('s3cret', body, await sign('s3cret', body))).toBe(true);
+  });
+
+  test('rejects a signature made with another secret', async () => {
+    expect(await verifySignature('s3cret', body, await sign('other', body))).toBe(false);
+  });
+
+  test('rejects a missing header', async () => {
+    expect(await verifySignature('s3cret', body, undefined)).toBe(false);
+  });
+});
+
+describe('titleFromPath', () => {
+  test('strips the directory, timestamp suffix and extension', () => {
+    expect(titleFromPath('articles/newton_s_laws-1729000000000.json')).toBe('newton s laws');
+  });
+});
+
+describe('applyPushEvent', () => {
+  test('indexes the content of a file added to the repo', async () => {
+    const batches: Array<Array<{ sql: string; params: unknown[] }>> = [];
+    // Fake D1 binding: no row exists for the file, the insert returns id 7
+    const statement = (sql: string, params: unknown[] = []) => ({
+      sql,
+      params,
+      bind: (...values: unknown[]) => statement(sql, values),
+      first: async () => (sql.startsWith('INSERT') ? { id: 7 } : null),
+    });
+    const env = {
+      bodhak: {
+        prepare: (sql: string) => statement(sql),
+        batch: async (statements: Array<{ sql: string; params: unknown[] }>) => {
+          batches.push(statements.map(({ sql, params }) => ({ sql, params })));
+          return [];
+        },
+      },
+    } as unknown as Env;
+
+    const summary = await applyPushEvent(
+      env,
+      {
+        ref: 'refs/heads/main',
+        commits: [
+          { id: 'abc', timestamp: '2026-10-01T00:00:00Z', added: ['articles/inertia.json'] },
+        ],
+      },
+      'https://example.com/webhooks/github'
+    );
+    expect(summary.created).toBe(1);
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(1);
+    expect(batches[0][0].sql).toContain('UPDATE search_index');
+    expect(batches[0][0].params[1]).toBe(7);
+  });
+});